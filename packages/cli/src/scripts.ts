@@ -2,11 +2,20 @@
  * Migration script generation: per-collection migrate scripts and run-all runner.
  */
 
-import type {
-  NoSqlCollection,
-  NoSqlField,
-  SqlForeignKey,
-  SqlTable,
+import {
+  BUCKET_FIELDS,
+  buildJsonSchemaValidator,
+  collectionTable,
+  type NoSqlArrayItems,
+  type NoSqlCollection,
+  type NoSqlField,
+  type NoSqlFieldSource,
+  type NoSqlFieldTree,
+  type NoSqlIndex,
+  type NoSqlPolymorphicReference,
+  type NoSqlTimeSeries,
+  type SqlForeignKey,
+  type SqlTable,
 } from "@s2n/core";
 import { pascalCase } from "./utils";
 
@@ -15,9 +24,44 @@ export function generateMigrationScriptForCollection(
   dependencies: string[],
   sqlTable?: SqlTable,
   tableFks: SqlForeignKey[] = [],
+  indexes: NoSqlIndex[] = [],
+  dependencyCollections: NoSqlCollection[] = [],
 ): string {
   const funcName = `build${pascalCase(collection.name)}Doc`;
-  const objectLiteral = renderNoSqlFieldsMapping(collection.fields ?? []);
+  const timeSeries = collection.timeSeries;
+  // A bucket collection is filled from rows: buildDoc returns one row's element.
+  const bucketItems =
+    timeSeries?.pattern === "buckets"
+      ? collection.fields.find((f) => f.name === timeSeries.itemsField)?.items?.fields
+      : undefined;
+  // Rows are read by column; the time field is one of a bucket's rows.
+  const timeColumn = timeSeries ? columnOf(bucketItems ?? collection.fields, timeSeries.timeField) : "";
+  const metaColumn = timeSeries ? columnOf(collection.fields, timeSeries.metaField) : "";
+  const bucketFields = timeSeries?.bucketFields ?? BUCKET_FIELDS;
+  const [startKey, countKey, minKey, maxKey] = [
+    bucketFields.start,
+    bucketFields.count,
+    bucketFields.min,
+    bucketFields.max,
+  ].map((name) => `[${JSON.stringify(name)}]`);
+  // An _id made of key columns goes into the upsert filter, not the document.
+  const idColumns = collection.idColumns ?? [];
+  const objectLiteral = renderNoSqlFieldsMapping(
+    (bucketItems ?? collection.fields ?? []).filter((f) => idColumns.length === 0 || f.name !== "_id"),
+  );
+  const usesDecimal = objectLiteral.includes("toDecimal(");
+  const usesUuid = collection.idStrategy === "uuid" && idColumns.length === 0 && !timeSeries;
+  const decimalHelper = usesDecimal
+    ? `
+// numeric/money values arrive from pg as strings; store them as exact decimals.
+// money is formatted ("$1,234.56"), so keep only the number itself.
+function toDecimal(value) {
+  if (value == null) return value;
+  if (Array.isArray(value)) return value.map(toDecimal);
+  return Decimal128.fromString(String(value).replace(/[^0-9.eE+-]/g, ""));
+}
+`
+    : "";
   const tableName = sqlTable?.name ?? collection.name;
   const primaryKeyFields = sqlTable?.primaryKey ?? [];
   const singlePkField =
@@ -27,6 +71,22 @@ export function generateMigrationScriptForCollection(
         collection.fields?.find((f) => /id$/i.test(f.name))?.name ??
         "_id";
   const isCompositePk = primaryKeyFields.length > 1;
+  // Documents hold a renamed column under its field name.
+  const fieldNameOf = (column: string): string => fieldNameIn(collection.fields ?? [], column);
+  const dependencyCollection = (dep: string): NoSqlCollection | undefined =>
+    dependencyCollections.find((c) => c.name === dep);
+
+  // tableFks also has the FKs of the tables array fields are read from.
+  const ownTable = sqlTable?.name ?? collectionTable(collection);
+  // Prefer real FK metadata to pair local and referenced columns (composite
+  // keys included); fall back to name matching for implicit relationships.
+  const depFks = new Map<string, SqlForeignKey | undefined>(
+    dependencies.map((dep) => {
+      const depCollection = dependencyCollection(dep);
+      const depTable = depCollection ? collectionTable(depCollection) : dep;
+      return [dep, tableFks.find((fk) => fk.fromTable === ownTable && fk.toTable === depTable)];
+    }),
+  );
 
   const relatedLoadCode =
     dependencies.length > 0
@@ -34,99 +94,515 @@ export function generateMigrationScriptForCollection(
   // Load related data from MongoDB (dependencies: ${dependencies.join(", ")})
   const related = {};
 ${dependencies
-  .map(
-    (dep) => `  const ${dep}Collection = mongoDb.collection("${dep}");
+  .map((dep) => {
+    const fk = depFks.get(dep);
+    // Migrated documents hold the referenced columns under their field names, or in _id.
+    const depFields = dependencyCollection(dep)?.fields ?? [];
+    const depIdExpr = fk
+      ? dep === collection.name
+        ? renderKeyExpression("doc", fk.toColumns)
+        : renderDocKeyExpression(depFields, fk.toColumns)
+      : `doc.${pascalCase(dep)}Id ?? doc.${dep.toLowerCase()}id ?? doc._id`;
+    if (dep === collection.name) {
+      // Embedding its own parent: this collection is being written by this
+      // very script, so its rows come from Postgres, keyed by column.
+      const renamed = (collection.fields ?? []).filter((f) => f.column && f.column !== f.name);
+      const parentDoc =
+        renamed.length > 0
+          ? `Object.fromEntries(Object.entries(doc).map(([k, v]) => [${dep}Names[k] ?? k, v]))`
+          : "doc";
+      return `  const ${dep}Map = new Map();${
+        renamed.length > 0
+          ? `\n  const ${dep}Names = ${JSON.stringify(Object.fromEntries(renamed.map((f) => [f.column, f.name])))};`
+          : ""
+      }
+  const ${dep}Res = await pg.query(\`SELECT * FROM ${renderSqlTable(tableName)}\`);
+  for (const doc of ${dep}Res.rows) {
+    const depId = ${depIdExpr};
+    if (depId != null) {
+      ${dep}Map.set(depId, ${parentDoc});
+    }
+  }
+  related.${dep} = ${dep}Map;`;
+    }
+    return `  const ${dep}Collection = mongoDb.collection("${dep}");
   const ${dep}Map = new Map();
   const ${dep}Docs = await ${dep}Collection.find({}).toArray();
   for (const doc of ${dep}Docs) {
-    const depId = doc.${pascalCase(dep)}Id ?? doc.${dep.toLowerCase()}id ?? doc._id;
+    const depId = ${depIdExpr};
     if (depId != null) {
       ${dep}Map.set(depId, doc);
     }
   }
-  related.${dep} = ${dep}Map;`,
-  )
+  related.${dep} = ${dep}Map;`;
+  })
   .join("\n")}`
       : `  const related = {};`;
 
   const relatedLookupCode = dependencies
     .map((dep) => {
-      const fkField =
-        collection.fields?.find(
-          (f) =>
-            f.name.toLowerCase() === `${dep.toLowerCase()}id` ||
-            f.name.toLowerCase() === `${dep.toLowerCase()}_id`,
-        )?.name ?? null;
+      const fk = depFks.get(dep);
+      if (fk) {
+        return `      const ${dep}Id = ${renderKeyExpression("row", fk.fromColumns)};
+      const ${dep}Doc = ${dep}Id != null ? related.${dep}.get(${dep}Id) : undefined;
+      if (${dep}Doc) relatedData.${dep} = ${dep}Doc;`;
+      }
+      const fkFieldDef = collection.fields?.find(
+        (f) =>
+          f.name.toLowerCase() === `${dep.toLowerCase()}id` ||
+          f.name.toLowerCase() === `${dep.toLowerCase()}_id`,
+      );
+      const fkField = fkFieldDef ? fkFieldDef.column ?? fkFieldDef.name : null;
       if (!fkField) return null;
-      return `      const ${dep}Id = row["${fkField}"] ?? row["${pascalCase(fkField)}"];
+      return `      const ${dep}Id = row[${JSON.stringify(fkField)}] ?? row[${JSON.stringify(pascalCase(fkField))}];
       const ${dep}Doc = ${dep}Id != null ? related.${dep}.get(${dep}Id) : undefined;
       if (${dep}Doc) relatedData.${dep} = ${dep}Doc;`;
     })
     .filter(Boolean)
     .join("\n");
 
-  const indexCreationLines: string[] = [];
-  if (primaryKeyFields.length > 0) {
-    const pkKeys = primaryKeyFields.map((f) => `${f}: 1`).join(", ");
-    indexCreationLines.push(
-      `    await collection.createIndex({ ${pkKeys} }, { unique: true });`,
+  // Array fields backed by another table (e.g. folded junction rows) are
+  // preloaded from Postgres and grouped by the parent key.
+  const sourcedFields = (collection.fields ?? []).filter(
+    (f): f is NoSqlField & { source: NoSqlFieldSource } =>
+      f.type === "array" && f.source != null,
+  );
+
+  const childLoadCode = sourcedFields
+    .map((field) => {
+      const mapVar = `children${pascalCase(field.name)}`;
+      const { sort, limit } = field.source;
+      const orderBy = sort
+        ? ` ORDER BY "${sort.column}" ${sort.direction === "desc" ? "DESC" : "ASC"}`
+        : "";
+      // Rows arrive in sort order, so the first `limit` per parent are the subset.
+      const limitCheck = limit ? `if (siblings.length < ${limit}) ` : "";
+      return `  // Rows of "${field.source.table}" for array field "${field.name}"
+  const ${mapVar} = new Map();
+  const ${mapVar}Res = await pg.query(\`SELECT * FROM ${renderSqlTable(field.source.table)}${orderBy}\`);
+  for (const child of ${mapVar}Res.rows) {
+    const parentKey = ${renderKeyExpression("child", field.source.joinColumns)};
+    if (parentKey == null) continue;
+    if (!${mapVar}.has(parentKey)) ${mapVar}.set(parentKey, []);
+    const siblings = ${mapVar}.get(parentKey);
+    ${limitCheck}siblings.push(child);
+  }`;
+    })
+    .join("\n");
+
+  // References holding a generated _id (mapping.idStrategy "objectId" /
+  // "uuid") look it up by key in the referenced collection, migrated first.
+  const refIdFields = (collection.fields ?? []).filter(
+    (f): f is NoSqlField & { refCollection: string } => f.refId === true && f.refCollection != null,
+  );
+  // Columns a reference holds the key in; several for a composite one.
+  const keyColumnsOf = (field: NoSqlField): string[] => field.refColumns ?? [field.column ?? field.name];
+  // Array elements do the same with a column of their source rows: the
+  // element itself (folded ids) or one of its fields.
+  const refIdElements = sourcedFields.flatMap((field) => {
+    const { items, source } = field;
+    const elements: Array<{ column: string; refCollection: string }> = [];
+    if (items?.refId && items.refCollection) {
+      elements.push({ column: source.columns[0], refCollection: items.refCollection });
+    }
+    for (const item of items?.fields ?? []) {
+      if (item.refId && item.refCollection) {
+        elements.push({ column: item.column ?? item.name, refCollection: item.refCollection });
+      }
+    }
+    return elements.map((element) => ({ ...element, field: field.name, table: source.table }));
+  });
+  const idTargets = Array.from(
+    new Set([...refIdFields, ...refIdElements].map((reference) => reference.refCollection)),
+  );
+  // The referenced primary key: the same columns, in the same order, for
+  // every reference to a target.
+  const idKeyOf = (target: string): string[] => {
+    const targetCollection = dependencyCollection(target);
+    const targetTable = targetCollection ? collectionTable(targetCollection) : target;
+    const field = refIdFields.find((f) => f.refCollection === target);
+    const element = refIdElements.find((e) => e.refCollection === target);
+    const [fromTable, columns] = field ? [ownTable, keyColumnsOf(field)] : [element!.table, [element!.column]];
+    const fk = tableFks.find(
+      (candidate) =>
+        candidate.fromTable === fromTable &&
+        candidate.toTable === targetTable &&
+        candidate.fromColumns.length === columns.length &&
+        columns.every((c) => candidate.fromColumns.includes(c)),
     );
+    return fk ? columns.map((c) => fk.toColumns[fk.fromColumns.indexOf(c)]) : ["_id"];
+  };
+
+  const idLoadCode = idTargets
+    .map((target) => {
+      const mapVar = `ids${pascalCase(target)}`;
+      const targetFields = dependencyCollection(target)?.fields ?? [];
+      const key = idKeyOf(target);
+      const projection = Array.from(new Set(key.map((c) => docPathOf(targetFields, c)[0])));
+      return `  // _id of every "${target}" document, by key, for references to it
+  const ${mapVar} = new Map();
+  const ${mapVar}Docs = await mongoDb.collection(\`\${collectionPrefix}${target}\`).find({}, { projection: { ${projection
+    .map((p) => `${renderPropertyName(p)}: 1`)
+    .join(", ")} } }).toArray();
+  for (const doc of ${mapVar}Docs) {
+    ${mapVar}.set(${renderDocKeyExpression(targetFields, key)}, doc._id);
+  }`;
+    })
+    .join("\n");
+
+  const idLookupCode = refIdFields
+    .map((field) => {
+      const key = renderKeyExpression("row", keyColumnsOf(field));
+      return `        relatedData[${JSON.stringify(field.name)}] = ids${pascalCase(field.refCollection)}.get(${key}) ?? null;`;
+    })
+    .join("\n");
+
+  const childLookupCode = sourcedFields
+    .map((field) => {
+      const mapVar = `children${pascalCase(field.name)}`;
+      const rows = `${mapVar}.get(${renderKeyExpression("row", field.source.parentColumns)}) ?? []`;
+      // Columns holding a generated _id's key are replaced by that _id.
+      const lookups = refIdElements
+        .filter((element) => element.field === field.name)
+        .map(
+          (element) =>
+            `${JSON.stringify(element.column)}: ids${pascalCase(element.refCollection)}.get(child[${JSON.stringify(
+              element.column,
+            )}]) ?? null`,
+        );
+      return lookups.length > 0
+        ? `        relatedData[${JSON.stringify(field.name)}] = (${rows}).map((child) => ({ ...child, ${lookups.join(", ")} }));`
+        : `        relatedData[${JSON.stringify(field.name)}] = ${rows};`;
+    })
+    .join("\n");
+
+  const allDependencies = [...dependencies, ...idTargets.filter((t) => !dependencies.includes(t))];
+
+  // Tree fields (ancestors, materialized path) walk the table's own parent
+  // column in memory: each row's key and parent key are preloaded once.
+  const treeFields = (collection.fields ?? []).filter(
+    (f): f is NoSqlField & { tree: NoSqlFieldTree } => f.tree != null,
+  );
+
+  const treeLoadCode = treeFields
+    .map((field) => {
+      const mapVar = `parents${pascalCase(field.name)}`;
+      const { keyColumn, parentColumn } = field.tree;
+      return `  // Parent of every "${tableName}" row, for tree field "${field.name}"
+  const ${mapVar} = new Map();
+  const ${mapVar}Res = await pg.query(\`SELECT "${keyColumn}", "${parentColumn}" FROM ${renderSqlTable(tableName)}\`);
+  for (const node of ${mapVar}Res.rows) {
+    ${mapVar}.set(node[${JSON.stringify(keyColumn)}], node[${JSON.stringify(parentColumn)}]);
+  }`;
+    })
+    .join("\n");
+
+  const treeLookupCode = treeFields
+    .map((field) => {
+      const mapVar = `parents${pascalCase(field.name)}`;
+      const ancestors = `ancestorKeys(${mapVar}, row[${JSON.stringify(field.tree.keyColumn)}])`;
+      if (field.tree.pattern === "ancestors") {
+        return `        relatedData[${JSON.stringify(field.name)}] = ${ancestors};`;
+      }
+      const separator = JSON.stringify(field.tree.separator ?? ",");
+      const keysVar = `ancestors${pascalCase(field.name)}`;
+      return `        const ${keysVar} = ${ancestors};
+        relatedData[${JSON.stringify(field.name)}] =
+          ${keysVar}.length > 0 ? ${separator} + ${keysVar}.join(${separator}) + ${separator} : null;`;
+    })
+    .join("\n");
+
+  // Table-per-type subtypes merged into this collection: each subtype table
+  // is preloaded by key, and a row's discriminator is the most specific
+  // subtype it appears in.
+  const inheritance = collection.inheritance;
+  const subtypeLoadCode = (inheritance?.subtypes ?? [])
+    .map((subtype) => {
+      const mapVar = `subtype${pascalCase(subtype.value)}`;
+      return `  // Rows of subtype "${subtype.table}", by key
+  const ${mapVar} = new Map();
+  const ${mapVar}Res = await pg.query(\`SELECT * FROM ${renderSqlTable(subtype.table)}\`);
+  for (const child of ${mapVar}Res.rows) {
+    ${mapVar}.set(${renderKeyExpression("child", subtype.joinColumns)}, child);
+  }`;
+    })
+    .join("\n");
+
+  const subtypeLookupCode = inheritance
+    ? [
+        "        relatedData.subtypes = {};",
+        ...inheritance.subtypes.map((subtype) => {
+          const mapVar = `subtype${pascalCase(subtype.value)}`;
+          return `        const ${mapVar}Row = ${mapVar}.get(${renderKeyExpression("row", subtype.parentColumns)});
+        if (${mapVar}Row) relatedData.subtypes[${JSON.stringify(subtype.table)}] = ${mapVar}Row;`;
+        }),
+        `        relatedData.subtype = ${inheritance.subtypes
+          .map((s) => `relatedData.subtypes[${JSON.stringify(s.table)}] ? ${JSON.stringify(s.value)} : `)
+          .join("")}${JSON.stringify(inheritance.value)};`,
+      ].join("\n")
+    : "";
+
+  // Typed references ({ type, id }) resolve the type column to a collection
+  // name: Rails class names from the analysis, Django content types from
+  // their table (app_label_model, Django's default table name).
+  const polymorphicFields = (collection.fields ?? []).filter(
+    (f): f is NoSqlField & { polymorphic: NoSqlPolymorphicReference } => f.polymorphic != null,
+  );
+
+  const polymorphicLoadCode = polymorphicFields
+    .map((field) => {
+      const mapVar = `types${pascalCase(field.name)}`;
+      const { typeTable, targets } = field.polymorphic;
+      if (typeTable) {
+        return `  // Content types for typed reference "${field.name}"
+  const ${mapVar} = new Map();
+  const ${mapVar}Res = await pg.query(\`SELECT "id", "app_label", "model" FROM ${renderSqlTable(typeTable)}\`);
+  for (const type of ${mapVar}Res.rows) {
+    ${mapVar}.set(type.id, type.app_label + "_" + type.model);
+  }`;
+      }
+      return `  // Type values of typed reference "${field.name}" -> collection
+  const ${mapVar} = new Map(${JSON.stringify(targets.map((t) => [t.value, t.collection]))});`;
+    })
+    .join("\n");
+
+  const polymorphicLookupCode = polymorphicFields
+    .map((field) => {
+      const mapVar = `types${pascalCase(field.name)}`;
+      const { typeColumn, idColumn, typeTable } = field.polymorphic;
+      const typeExpr = `row[${JSON.stringify(typeColumn)}]`;
+      // Rails stores namespaced class names (Admin::Post); targets use the last part.
+      const resolved = typeTable
+        ? `${mapVar}.get(${typeExpr}) ?? ${typeExpr}`
+        : `${mapVar}.get(${typeExpr}) ?? ${mapVar}.get(String(${typeExpr}).split("::").pop()) ?? ${typeExpr}`;
+      return `        relatedData[${JSON.stringify(field.name)}] =
+          row[${JSON.stringify(idColumn)}] == null ? null : { type: ${resolved}, id: row[${JSON.stringify(idColumn)}] };`;
+    })
+    .join("\n");
+
+  const treeHelper =
+    treeFields.length > 0
+      ? `
+// Keys of a row's ancestors, root first, from a Map of key -> parent key.
+// Stops at a key seen before, so a cycle in the data cannot loop forever.
+function ancestorKeys(parents, key) {
+  const keys = [];
+  const seen = new Set([key]);
+  let parent = parents.get(key);
+  while (parent != null && !seen.has(parent)) {
+    keys.unshift(parent);
+    seen.add(parent);
+    parent = parents.get(parent);
   }
-  const pkSet = new Set(primaryKeyFields);
-  for (const fk of tableFks) {
-    if (pkSet.has(fk.fromColumn)) continue;
-    indexCreationLines.push(
-      `    await collection.createIndex({ ${fk.fromColumn}: 1 });`,
-    );
+  return keys;
+}
+`
+      : "";
+
+  const bucketHelper =
+    timeSeries?.pattern === "buckets"
+      ? `
+// Start of the UTC ${timeSeries.window} a row's ${timeColumn} falls in; one bucket per ${metaColumn} and ${timeSeries.window}.
+function bucketStart(value) {
+  const start = new Date(value);
+${
+  timeSeries.window === "hour"
+    ? "  start.setUTCMinutes(0, 0, 0);"
+    : timeSeries.window === "day"
+      ? "  start.setUTCHours(0, 0, 0, 0);"
+      : "  start.setUTCDate(1);\n  start.setUTCHours(0, 0, 0, 0);"
+}
+  return start;
+}
+
+// Append a row's element to its bucket, keeping count, min and max current.
+function addToBucket(bucket, element) {
+  bucket[${JSON.stringify(timeSeries.itemsField ?? "rows")}].push(element);
+  bucket${countKey}++;
+  for (const key of ${JSON.stringify(timeSeries.summaryFields ?? [timeSeries.timeField])}) {
+    const value = element[key];
+    if (value == null) continue;
+    if (bucket${minKey}[key] == null || value < bucket${minKey}[key]) bucket${minKey}[key] = value;
+    if (bucket${maxKey}[key] == null || value > bucket${maxKey}[key]) bucket${maxKey}[key] = value;
   }
+}
+`
+      : "";
+
+  // Indexes come from the analysis (keys, SQL indexes, FKs). TTL candidates
+  // delete data, so they are emitted commented out for the user to opt in.
+  const indexCreationLines = indexes.map((index) => {
+    const line = `await collection.createIndex(${renderIndexKeys(index)}${renderIndexOptions(index)});`;
+    return index.origin === "ttl"
+      ? `    // TTL candidate: ${index.reason}\n    // ${line}`
+      : `    ${line}`;
+  });
   const indexCreationCode =
     indexCreationLines.length > 0
-      ? `    // Index-first (PK and FK) for production readiness
+      ? `    // Index-first (keys, SQL indexes, FKs) for production readiness
 ${indexCreationLines.join("\n")}
 `
       : "";
 
+  // Enum labels and CHECK rules from the SQL schema, enforced by MongoDB.
+  const validator = buildJsonSchemaValidator(collection);
+  const validatorCode = validator
+    ? `    // Validation from SQL enums and CHECK constraints
+    const validator = ${JSON.stringify(validator, null, 2).replace(/\n/g, "\n    ")};
+    if (!dryRun) {
+      const collectionName = \`\${collectionPrefix}${collection.name}\`;
+      const exists = await mongoDb.listCollections({ name: collectionName }).hasNext();
+      if (exists) {
+        await mongoDb.command({ collMod: collectionName, validator });
+      } else {
+        await mongoDb.createCollection(collectionName, { validator });
+      }
+    }
+`
+    : "";
+
+  // Buckets are filled in owner and time order, so each is complete when the key changes.
+  const orderColumns =
+    timeSeries?.pattern === "buckets"
+      ? [metaColumn, timeColumn, ...primaryKeyFields.filter((c) => c !== metaColumn && c !== timeColumn)]
+      : primaryKeyFields;
   const orderByClause =
-    primaryKeyFields.length > 0
-      ? ` ORDER BY ${primaryKeyFields.map((c) => `"${c}"`).join(", ")}`
+    orderColumns.length > 0
+      ? ` ORDER BY ${orderColumns.map((c) => `"${c}"`).join(", ")}`
       : "";
 
   const compositePkFilterBuild =
-    isCompositePk && primaryKeyFields.length > 0
+    isCompositePk && primaryKeyFields.length > 0 && idColumns.length === 0
       ? primaryKeyFields
           .map(
-            (f) =>
-              `      const _pk_${f} = doc["${f}"] ?? doc["${pascalCase(f)}"];`,
+            (f, i) =>
+              `      const _pk_${i} = doc[${JSON.stringify(fieldNameOf(f))}] ?? doc[${JSON.stringify(pascalCase(f))}];`,
           )
           .join("\n") +
         "\n      const _filter = { " +
-        primaryKeyFields.map((f) => `${f}: _pk_${f}`).join(", ") +
+        primaryKeyFields.map((f, i) => `${renderPropertyName(fieldNameOf(f))}: _pk_${i}`).join(", ") +
         " };\n      if (" +
-        primaryKeyFields.map((f) => `_pk_${f} == null`).join(" || ") +
+        primaryKeyFields.map((_, i) => `_pk_${i} == null`).join(" || ") +
         ") { console.warn(\`Row missing composite PK, skipping:\`, row); continue; }"
       : "";
 
   const singlePkFilterBuild =
-    !isCompositePk
-      ? `      const docId = doc["${singlePkField}"] ?? doc["${pascalCase(singlePkField)}"] ?? doc._id;
+    !isCompositePk && idColumns.length === 0
+      ? `      const docId = doc[${JSON.stringify(fieldNameOf(singlePkField))}] ?? doc[${JSON.stringify(pascalCase(singlePkField))}] ?? doc._id;
       if (docId == null) {
         console.warn(\`Row missing ID field "${singlePkField}", skipping:\`, row);
         continue;
       }
-      const _filter = { ${singlePkField}: docId };`
+      const _filter = { ${renderPropertyName(fieldNameOf(singlePkField))}: docId };`
+      : "";
+
+  // _id from key columns (mapping.idStrategy "primaryKey" or the overrides
+  // file): one column as is, several as an embedded document.
+  const idFieldNameOf = (column: string): string =>
+    docPathOf(collection.fields ?? [], column).slice(-1)[0];
+  const idFilterBuild =
+    idColumns.length > 0
+      ? `      const docId = ${
+          idColumns.length === 1
+            ? `row[${JSON.stringify(idColumns[0])}]`
+            : `{ ${idColumns.map((c) => `${renderPropertyName(idFieldNameOf(c))}: row[${JSON.stringify(c)}]`).join(", ")} }`
+        };
+      if (${idColumns.map((c) => `row[${JSON.stringify(c)}] == null`).join(" || ")}) {
+        console.warn(\`Row missing _id column ${idColumns.join(", ")}, skipping:\`, row);
+        continue;
+      }
+      const _filter = { _id: docId };`
+      : "";
+
+  const writeRow = (operation: string): string => `${compositePkFilterBuild}
+${singlePkFilterBuild}${idFilterBuild}
+
+        try {
+          if (!dryRun) {
+            ${operation}
+          }
+          migrated++;
+          if (progressEvery > 0 && migrated % progressEvery === 0) {
+            console.log(\`  ... \${migrated} rows migrated\`);
+          }
+        } catch (err) {
+          if (skipOnError) {
+            errors++;
+            console.error(\`Row error (\${errors}):\`, _filter, err.message);
+          } else {
+            throw err;
+          }
+        }`;
+
+  const ownerKey = timeSeries ? `[${JSON.stringify(timeSeries.metaField)}]` : "";
+  const ownerProp = timeSeries ? renderPropertyName(timeSeries.metaField) : "";
+  const ownerColumn = `[${JSON.stringify(metaColumn)}]`;
+  const writeCode =
+    timeSeries?.pattern === "buckets"
+      ? `        const _time = row[${JSON.stringify(timeColumn)}];
+        if (_time == null) {
+          console.warn(\`Row missing "${timeColumn}", skipping:\`, row);
+          continue;
+        }
+        const _start = bucketStart(_time);
+        if (bucket && (bucket${ownerKey} !== row${ownerColumn} || bucket${startKey}.getTime() !== _start.getTime())) {
+          await writeBucket(bucket);
+          bucket = null;
+        }
+        if (!bucket) {
+          bucket = { ${ownerProp}: row${ownerColumn}, ${renderPropertyName(bucketFields.start)}: _start, ${renderPropertyName(bucketFields.count)}: 0, ${renderPropertyName(bucketFields.min)}: {}, ${renderPropertyName(bucketFields.max)}: {}, ${renderPropertyName(timeSeries.itemsField ?? "rows")}: [] };
+        }
+        addToBucket(bucket, doc);`
+      : timeSeries?.pattern === "timeseries"
+        ? writeRow(`// Time-series collections take inserts, not upserts.
+            await collection.insertOne(doc);`)
+        : writeRow(`await collection.updateOne(
+              _filter,
+              ${
+                collection.idStrategy === "uuid" && idColumns.length === 0
+                  ? "{ $set: doc, $setOnInsert: { _id: new UUID() } }"
+                  : "{ $set: doc }"
+              },
+              { upsert: true },
+            );`);
+
+  const bucketWriteCode =
+    timeSeries?.pattern === "buckets"
+      ? `
+    let bucket = null;
+    const writeBucket = async (b) => {
+      const _filter = { ${ownerProp}: b${ownerKey}, ${renderPropertyName(bucketFields.start)}: b${startKey} };
+      try {
+        if (!dryRun) {
+          await collection.updateOne(_filter, { $set: b }, { upsert: true });
+        }
+        migrated++;
+        if (progressEvery > 0 && migrated % progressEvery === 0) {
+          console.log(\`  ... \${migrated} buckets migrated\`);
+        }
+      } catch (err) {
+        if (skipOnError) {
+          errors++;
+          console.error(\`Bucket error (\${errors}):\`, _filter, err.message);
+        } else {
+          throw err;
+        }
+      }
+    };
+`
       : "";
 
   // Below: template for the emitted .migrate.js file (the // lines are output, not dead code)
   return `// Auto-generated by sql2nosql. Edit as needed.
 // Migrates Postgres table "${tableName}" -> MongoDB collection "${collection.name}".
-// Dependencies: ${dependencies.length > 0 ? dependencies.join(", ") : "none"}
+// Dependencies: ${allDependencies.length > 0 ? allDependencies.join(", ") : "none"}
 // Run: node ${collection.name}.migrate.js
 
 const path = require("path");
 const fs = require("fs");
 const { Client: PgClient } = require("pg");
-const { MongoClient } = require("mongodb");
-
+const { MongoClient${usesDecimal ? ", Decimal128" : ""}${usesUuid ? ", UUID" : ""} } = require("mongodb");
+${decimalHelper}${treeHelper}${bucketHelper}
 // --- Safe to edit: buildDoc and custom logic below ---
 function ${funcName}(row, related = {}) {
   return ${objectLiteral};
@@ -140,7 +616,7 @@ async function migrate() {
   }
   const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
   const pgConnection = config.connection;
-  const schema = config.schema || "public";
+  const schema = (Array.isArray(config.schema) ? config.schema[0] : config.schema) || "public";
   const mongodbConfig = config.mongodb || {};
   const mongoUri = mongodbConfig.uri || "mongodb://localhost:27017";
   const mongoDbName = mongodbConfig.database || "sql2nosql";
@@ -171,16 +647,21 @@ async function migrate() {
 
     // --- BEGIN GENERATED ---
 ${relatedLoadCode}
-${indexCreationCode}
+${idLoadCode}
+${childLoadCode}
+${treeLoadCode}
+${subtypeLoadCode}
+${polymorphicLoadCode}
+${timeSeries?.pattern === "timeseries" ? renderTimeSeriesCreation(collection.name, timeSeries) : validatorCode}${indexCreationCode}
     const orderBy = "${orderByClause.replace(/"/g, '\\"')}";
     let totalRows = 0;
     let migrated = 0;
     let errors = 0;
     let offset = 0;
     const limit = batchSize > 0 ? batchSize : 2147483647;
-
+${bucketWriteCode}
     while (true) {
-      const query = \`SELECT * FROM "\${schema}"."${tableName}"\${orderBy} LIMIT \${limit} OFFSET \${offset}\`;
+      const query = \`SELECT * FROM ${renderSqlTable(tableName)}\${orderBy} LIMIT \${limit} OFFSET \${offset}\`;
       if (offset === 0) console.log(\`Querying: \${query}\`);
       const res = await pg.query(query);
       if (res.rows.length === 0) break;
@@ -189,38 +670,21 @@ ${indexCreationCode}
       for (const row of res.rows) {
         const relatedData = {};
 ${relatedLookupCode}
+${idLookupCode}
+${childLookupCode}
+${treeLookupCode}
+${subtypeLookupCode}
+${polymorphicLookupCode}
 
         const doc = ${funcName}(row, relatedData);
         if (!doc) continue;
 
-${compositePkFilterBuild}
-${singlePkFilterBuild}
-
-        try {
-          if (!dryRun) {
-            await collection.updateOne(
-              _filter,
-              { $set: doc },
-              { upsert: true },
-            );
-          }
-          migrated++;
-          if (progressEvery > 0 && migrated % progressEvery === 0) {
-            console.log(\`  ... \${migrated} rows migrated\`);
-          }
-        } catch (err) {
-          if (skipOnError) {
-            errors++;
-            console.error(\`Row error (\${errors}):\`, _filter, err.message);
-          } else {
-            throw err;
-          }
-        }
+${writeCode}
       }
       if (res.rows.length < limit) break;
       offset += limit;
     }
-
+${timeSeries?.pattern === "buckets" ? "    if (bucket) await writeBucket(bucket);\n" : ""}
     console.log(\`✓ Migrated \${migrated} documents into "\${collectionPrefix}${collection.name}"\${dryRun ? " (dry-run)" : ""}. Total rows: \${totalRows}\${errors > 0 ? \`, errors: \${errors}\` : ""}\`);
     // --- END GENERATED ---
   } finally {
@@ -240,6 +704,73 @@ module.exports = { ${funcName}, migrate };
 `;
 }
 
+/**
+ * Create a time-series collection before the first insert. MongoDB cannot
+ * turn an existing collection into one, and inserts are not idempotent, so a
+ * collection that already holds documents stops the migration. Enum and
+ * CHECK validation is not applied to time-series collections.
+ */
+function renderTimeSeriesCreation(name: string, timeSeries: NoSqlTimeSeries): string {
+  const granularity = { hour: "seconds", day: "minutes", month: "hours" }[timeSeries.window];
+  const options = {
+    timeseries: { timeField: timeSeries.timeField, metaField: timeSeries.metaField, granularity },
+  };
+  return `    // Time-series collection: MongoDB groups rows per ${timeSeries.metaField} and time itself
+    if (!dryRun) {
+      const collectionName = \`\${collectionPrefix}${name}\`;
+      const exists = await mongoDb.listCollections({ name: collectionName }).hasNext();
+      if (!exists) {
+        await mongoDb.createCollection(collectionName, ${JSON.stringify(options)});
+      } else if ((await collection.estimatedDocumentCount()) > 0) {
+        throw new Error(\`\${collectionName} already has documents; time-series collections take inserts only, so drop it before migrating again.\`);
+      }
+    }
+`;
+}
+
+/** Whether a collection references, embeds or walks documents of its own. */
+function referencesItself(collection: NoSqlCollection): boolean {
+  const visit = (fields: NoSqlField[]): boolean =>
+    fields.some(
+      (field) =>
+        field.tree != null ||
+        field.refCollection === collection.name ||
+        field.items?.refCollection === collection.name ||
+        (field.type === "object" && field.name === collection.name) ||
+        visit(field.fields ?? []),
+    );
+  return visit(collection.fields ?? []);
+}
+
+/**
+ * Emit the FROM target of a query inside the script's template literal:
+ * schema-qualified table names (several schemas analyzed) keep their schema,
+ * others are read from the configured `schema`.
+ */
+function renderSqlTable(tableName: string): string {
+  const quote = (identifier: string): string => `"${identifier.replace(/"/g, '""')}"`;
+  const dot = tableName.lastIndexOf(".");
+  if (dot < 0) return `"\${schema}".${quote(tableName)}`;
+  return `${quote(tableName.slice(0, dot))}.${quote(tableName.slice(dot + 1))}`;
+}
+
+/**
+ * Emit a JS expression that yields a lookup key for the given columns of
+ * `source` (a Postgres row, a MongoDB document, or a row of a child table). Composite keys become a
+ * JSON-encoded tuple; any missing part yields undefined.
+ */
+function renderKeyExpression(
+  source: "row" | "doc" | "child",
+  columns: string[],
+): string {
+  return renderKeyParts(columns.map((c) => `${source}[${JSON.stringify(c)}]`));
+}
+
+function renderKeyParts(parts: string[]): string {
+  if (parts.length === 1) return parts[0];
+  return `(${parts.map((p) => `${p} == null`).join(" || ")}) ? undefined : JSON.stringify([${parts.join(", ")}])`;
+}
+
 function renderNoSqlFieldsMapping(
   fields: NoSqlField[],
   indent: number = 2,
@@ -249,19 +780,51 @@ function renderNoSqlFieldsMapping(
   const lines: string[] = ["{"];
 
   for (const field of fields) {
-    if (field.type === "object" && field.fields && field.fields.length > 0) {
-      const nestedPath = parentPath ? `${parentPath}.${field.name}` : field.name;
+    if ((field.tree || field.polymorphic || field.refId) && !parentPath) {
+      lines.push(`${pad}${renderPropertyName(field.name)}: related[${JSON.stringify(field.name)}],`);
+    } else if (field.refColumns && field.fields && !parentPath) {
+      lines.push(`${pad}${renderPropertyName(field.name)}: ${renderKeyDocument(field.fields, field.refColumns)},`);
+    } else if (field.discriminator && !parentPath) {
+      lines.push(`${pad}${renderPropertyName(field.name)}: related.subtype,`);
+    } else if (field.subtypeColumn && !parentPath) {
+      const { table, column } = field.subtypeColumn;
+      lines.push(
+        `${pad}${renderPropertyName(field.name)}: ${renderValue(
+          field,
+          `related.subtypes?.[${JSON.stringify(table)}]?.[${JSON.stringify(column)}]`,
+        )},`,
+      );
+    } else if (field.type === "array" && field.source && !parentPath) {
+      lines.push(`${pad}${renderPropertyName(field.name)}: ${renderSourcedArray(field, field.source)},`);
+    } else if (
+      field.type === "object" &&
+      field.fields &&
+      field.fields.length > 0 &&
+      field.sampledValues == null
+    ) {
+      // Embedded documents; a sampled JSON column is copied as stored instead.
+      // One embedded from another collection is looked up under that collection's name.
+      const nestedPath = parentPath
+        ? `${parentPath}.${field.name}`
+        : field.refCollection ?? field.name;
       const nestedObject = renderNoSqlFieldsMapping(
         field.fields,
         indent + 2,
         nestedPath,
       );
-      lines.push(`${pad}${field.name}: ${nestedObject},`);
+      lines.push(`${pad}${renderPropertyName(field.name)}: ${nestedObject},`);
+    } else if (parentPath) {
+      // Embedded values come from already-migrated documents; keep them as-is.
+      // Each level of the path may be missing (no related document, no _id).
+      const guards = parentPath
+        .split(".")
+        .map((_, i, parts) => `related.${parts.slice(0, i + 1).join(".")}`);
+      lines.push(
+        `${pad}${renderPropertyName(field.name)}: ${guards.join(" && ")} && related.${parentPath}[${JSON.stringify(field.name)}],`,
+      );
     } else {
-      const expr = parentPath
-        ? `related.${parentPath} && related.${parentPath}["${field.name}"]`
-        : `row["${field.name}"]`;
-      lines.push(`${pad}${field.name}: ${expr},`);
+      const column = field.column ?? field.name;
+      lines.push(`${pad}${renderPropertyName(field.name)}: ${renderValue(field, `row[${JSON.stringify(column)}]`)},`);
     }
   }
 
@@ -269,6 +832,96 @@ function renderNoSqlFieldsMapping(
   return lines.join("\n");
 }
 
+/**
+ * A composite reference's _id document from the row's key columns, one
+ * per field: { tenant_id: row["tenant_id"], id: row["owner_id"] }. null
+ * when part of the key is NULL, as SQL does not check such a reference.
+ */
+function renderKeyDocument(fields: NoSqlField[], columns: string[]): string {
+  const values = columns.map((column) => `row[${JSON.stringify(column)}]`);
+  const props = fields.map((f, i) => `${renderPropertyName(f.name)}: ${renderValue(f, values[i])}`);
+  return `(${values.map((v) => `${v} == null`).join(" || ")}) ? null : { ${props.join(", ")} }`;
+}
+
+/**
+ * Map the preloaded child rows of a sourced array field to its elements:
+ * sub-documents when items have fields, plain values otherwise.
+ */
+function renderSourcedArray(field: NoSqlField, source: NoSqlFieldSource): string {
+  const rows = `(related[${JSON.stringify(field.name)}] || [])`;
+  const itemFields = field.items?.fields;
+  if (itemFields && itemFields.length > 0) {
+    const props = itemFields
+      .map((f) => `${renderPropertyName(f.name)}: ${renderValue(f, `child[${JSON.stringify(f.column ?? f.name)}]`)}`)
+      .join(", ");
+    return `${rows}.map((child) => ({ ${props} }))`;
+  }
+  return `${rows}.map((child) => child[${JSON.stringify(source.columns[0])}])`;
+}
+
+/** "{ field: 1, other: -1 }" key document of a createIndex call. */
+function renderIndexKeys(index: NoSqlIndex): string {
+  const keys = index.keys.map((k) => `${renderPropertyName(k.field)}: ${k.direction}`);
+  return `{ ${keys.join(", ")} }`;
+}
+
+/** ", { unique: true, ... }", or nothing for a plain index. */
+function renderIndexOptions(index: NoSqlIndex): string {
+  const options: Record<string, unknown> = {};
+  if (index.name) options.name = index.name;
+  if (index.unique) options.unique = true;
+  if (index.partialFilterExpression) options.partialFilterExpression = index.partialFilterExpression;
+  if (index.collation) options.collation = index.collation;
+  if (index.expireAfterSeconds != null) options.expireAfterSeconds = index.expireAfterSeconds;
+  const entries = Object.entries(options).map(
+    ([key, value]) => `${key}: ${JSON.stringify(value)}`,
+  );
+  return entries.length > 0 ? `, { ${entries.join(", ")} }` : "";
+}
+
+/** Field name a column is stored under in `fields`: the column itself unless renamed. */
+function fieldNameIn(fields: NoSqlField[], column: string): string {
+  return fields.find((f) => (f.column ?? f.name) === column)?.name ?? column;
+}
+
+/**
+ * Where a migrated document holds `column`: its field, or its place in an
+ * _id made of key columns (["_id"], ["_id", "line_no"]).
+ */
+function docPathOf(fields: NoSqlField[], column: string): string[] {
+  const matches = (f: NoSqlField): boolean => (f.column ?? f.name) === column;
+  const field = fields.find(matches);
+  if (field) return [field.name];
+  const nested = fields.find((f) => f.name === "_id")?.fields?.find(matches);
+  return nested ? ["_id", nested.name] : [column];
+}
+
+/** renderKeyExpression for `columns` of a migrated document with the given fields. */
+function renderDocKeyExpression(fields: NoSqlField[], columns: string[]): string {
+  const parts = columns.map((c) => `doc${docPathOf(fields, c).map((k) => `[${JSON.stringify(k)}]`).join("")}`);
+  return renderKeyParts(parts);
+}
+
+/** Column a field is read from: its own name unless renamed. */
+function columnOf(fields: NoSqlField[], name: string): string {
+  const field = fields.find((f) => f.name === name);
+  return field?.column ?? name;
+}
+
+function renderPropertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/** Wrap a column value read from Postgres in the conversion its field type needs. */
+function renderValue(field: NoSqlField, expr: string): string {
+  return isDecimalValued(field) ? `toDecimal(${expr})` : expr;
+}
+
+function isDecimalValued(shape: Pick<NoSqlArrayItems, "type" | "items">): boolean {
+  if (shape.type === "decimal") return true;
+  return shape.type === "array" && shape.items != null && isDecimalValued(shape.items);
+}
+
 export function generateMigrationRunnerScript(
   collections: NoSqlCollection[],
 ): string {
@@ -281,19 +934,37 @@ export function generateMigrationRunnerScript(
 
   const allNames = new Set(collections.map((c) => c.name));
 
+  // Self-references (category.parent_id, an embedded parent, tree fields)
+  // are not ordering constraints: each script reads its own table from
+  // Postgres. They are listed in the runner rather than dropped unnoticed.
+  const selfReferencing = collections
+    .filter((c) => referencesItself(c))
+    .map((c) => c.name);
+
   function inferDeps(collection: NoSqlCollection): Set<string> {
     const deps = new Set<string>();
 
     function visitFields(fields: NoSqlField[]) {
       for (const field of fields) {
-        if (field.type === "object") {
+        // A reference holding a generated _id needs the referenced documents
+        // written; so do array elements holding one.
+        for (const reference of [field, field.items, ...(field.items?.fields ?? [])]) {
+          if (reference?.refId && reference.refCollection && allNames.has(reference.refCollection)) {
+            if (reference.refCollection !== collection.name) deps.add(reference.refCollection);
+          }
+        }
+        // Key values of a composite reference are read from the row.
+        if (field.type === "object" && !field.refColumns) {
           const candidates = new Set<string>();
+          // An embedded document copied from another collection names it.
+          if (field.refCollection) candidates.add(field.refCollection);
           candidates.add(field.name);
           candidates.add(`${field.name}s`);
           if (field.name.endsWith("s")) {
             candidates.add(field.name.slice(0, -1));
           }
 
+          // Self-dependencies are listed in selfReferencing, not ordered.
           for (const cand of candidates) {
             if (allNames.has(cand) && cand !== collection.name) {
               deps.add(cand);
@@ -362,7 +1033,11 @@ export function generateMigrationRunnerScript(
   return (
     `// Auto-generated by sql2nosql.\n` +
     `// Runs all per-collection migrations in dependency order.\n` +
-    `// Usage: node run-all.migrate.js\n\n` +
+    `// Usage: node run-all.migrate.js\n` +
+    (selfReferencing.length > 0
+      ? `// Self-referencing (no ordering needed): ${selfReferencing.join(", ")}\n`
+      : "") +
+    `\n` +
     `${imports}\n\n` +
     `async function runAllMigrations() {\n` +
     `  const order = [${ordered.map((i) => `"${i.name}"`).join(", ")}];\n` +
@@ -0,0 +1,122 @@
+import { readFileSync } from "node:fs";
+import {
+  parseSqlSchemaWithDiagnostics,
+  type SqlDiagnostic,
+  type SqlDialect,
+  type SqlSchema,
+} from "@s2n/core";
+import { combineSchemas, splitQualifiedName } from "./names";
+import type { SchemaSource } from "./types";
+
+/** Schema that unqualified names live in when the dump mixes several. */
+const DIALECT_DEFAULT_SCHEMA: Record<SqlDialect, string> = {
+  postgres: "public",
+  mssql: "dbo",
+  mysql: "",
+  sqlite: "",
+};
+
+/**
+ * Offline source: parses a DDL file (e.g. a pg_dump --schema-only output)
+ * instead of connecting to a database. Table names in dumps are usually
+ * schema-qualified; they are scoped to the analyzed schemas and named as
+ * live introspection of those schemas would name them.
+ */
+export class DdlFileSource implements SchemaSource {
+  readonly type = "ddl";
+  readonly dialect: SqlDialect;
+  private path: string;
+  private parsed: SqlSchema | undefined;
+  /** Parser diagnostics for the whole file, whichever schema is loaded. */
+  diagnostics: SqlDiagnostic[] = [];
+
+  constructor(path: string, dialect: SqlDialect) {
+    this.path = path;
+    this.dialect = dialect;
+  }
+
+  /** The only schema named in the file, or the dialect's default schema. */
+  get defaultSchema(): string {
+    const qualifiers = new Set(
+      (this.parsed?.tables ?? [])
+        .map((t) => splitQualifiedName(t.name).schema)
+        .filter((s): s is string => s != null),
+    );
+    return qualifiers.size === 1
+      ? [...qualifiers][0]
+      : DIALECT_DEFAULT_SCHEMA[this.dialect];
+  }
+
+  async connect(): Promise<void> {
+    const { sqlSchema, diagnostics } = parseSqlSchemaWithDiagnostics(
+      readFileSync(this.path, "utf8"),
+      { dialect: this.dialect },
+    );
+    this.parsed = sqlSchema;
+    this.diagnostics = diagnostics;
+  }
+
+  async loadSchema(schemas: string[]): Promise<SqlSchema> {
+    const parsed = this.parsed;
+    if (!parsed) {
+      throw new Error(`DDL file ${this.path} has not been read`);
+    }
+    // Unqualified tables belong to the first schema analyzed, like the first
+    // schema of a search_path.
+    return combineSchemas(
+      schemas.map((schema) => ({
+        schema,
+        sqlSchema: scopeToSchema(parsed, schema, schemas[0]),
+      })),
+    );
+  }
+
+  async close(): Promise<void> {
+    this.parsed = undefined;
+  }
+}
+
+/** Tables of `schema`, unqualified; other tables they reference stay qualified. */
+function scopeToSchema(parsed: SqlSchema, schema: string, home: string): SqlSchema {
+  const inSchema = (name: string): boolean =>
+    (splitQualifiedName(name).schema ?? home) === schema;
+  const unqualify = (name: string): string => {
+    const { schema: qualifier, table } = splitQualifiedName(name);
+    if (inSchema(name)) return table;
+    return qualifier == null ? `${home}.${name}` : name;
+  };
+
+  return {
+    tables: parsed.tables
+      .filter((t) => inSchema(t.name))
+      .map((t) => ({
+        ...t,
+        name: unqualify(t.name),
+        ...(t.partitions
+          ? { partitions: t.partitions.map((p) => ({ ...p, name: unqualify(p.name) })) }
+          : {}),
+      })),
+    foreignKeys: parsed.foreignKeys
+      .filter((fk) => inSchema(fk.fromTable))
+      .map((fk) => ({
+        ...fk,
+        fromTable: unqualify(fk.fromTable),
+        toTable: unqualify(fk.toTable),
+      })),
+    ...(parsed.enums ? { enums: parsed.enums } : {}),
+    ...(parsed.indexes
+      ? {
+          indexes: parsed.indexes
+            .filter((index) => inSchema(index.table))
+            .map((index) => ({ ...index, table: unqualify(index.table) })),
+        }
+      : {}),
+    ...(parsed.checkConstraints
+      ? {
+          checkConstraints: parsed.checkConstraints
+            .filter((check) => inSchema(check.table))
+            .map((check) => ({ ...check, table: unqualify(check.table) })),
+        }
+      : {}),
+  };
+}
@@ -0,0 +1,54 @@
+import { resolveDialect } from "@s2n/core";
+import { DdlFileSource } from "./ddl";
+import { MySqlSource } from "./mysql";
+import { PostgresSource } from "./postgres";
+import type { SchemaSource } from "./types";
+
+export type { SchemaSource, SchemaSourceType } from "./types";
+
+/**
+ * Pick the introspection source for a connection. An explicit `source.type`
+ * from the config wins; otherwise the connection string scheme decides
+ * (mysql:// or mariadb:// → MySQL, anything else → Postgres).
+ */
+export function createSchemaSource(
+  connectionString: string,
+  explicitType?: string,
+): SchemaSource {
+  const type = explicitType
+    ? resolveSourceType(explicitType)
+    : sourceTypeFromUrl(connectionString);
+
+  switch (type) {
+    case "mysql":
+      return new MySqlSource(connectionString);
+    case "postgres":
+    default:
+      return new PostgresSource(connectionString);
+  }
+}
+
+/** Offline source reading a DDL file; the dialect defaults to Postgres. */
+export function createDdlSource(path: string, dialectName?: string): SchemaSource {
+  if (!dialectName) return new DdlFileSource(path, "postgres");
+  const dialect = resolveDialect(dialectName);
+  if (!dialect) {
+    throw new Error(
+      `Unsupported DDL dialect "${dialectName}". Use "postgres", "mysql", "sqlite" or "mssql".`,
+    );
+  }
+  return new DdlFileSource(path, dialect);
+}
+
+function resolveSourceType(name: string): "postgres" | "mysql" {
+  const dialect = resolveDialect(name);
+  if (dialect === "postgres" || dialect === "mysql") return dialect;
+  throw new Error(
+    `Unsupported source type "${name}". Live introspection supports "postgres" and "mysql".`,
+  );
+}
+
+function sourceTypeFromUrl(connectionString: string): "postgres" | "mysql" {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(connectionString)?.[1]?.toLowerCase();
+  return scheme === "mysql" || scheme === "mariadb" ? "mysql" : "postgres";
+}
@@ -0,0 +1,472 @@
+import {
+  createConnection,
+  Types,
+  type Connection,
+  type FieldPacket,
+  type RowDataPacket,
+} from "mysql2/promise";
+import {
+  bareTableName,
+  describeColumnType,
+  parseCheckConstraint,
+  type SqlCheckConstraint,
+  type SqlColumn,
+  type SqlForeignKey,
+  type SqlForeignKeyFanOut,
+  type SqlIndex,
+  type SqlSchema,
+  type SqlTable,
+  type SqlTableStatistics,
+} from "@s2n/core";
+import { combineSchemas } from "./names";
+import { applyJsonSamples, applyProfile, jsonColumns, tableLookup } from "./profile";
+import type { SchemaSource } from "./types";
+
+/**
+ * MySQL / MariaDB introspection via information_schema. A MySQL "schema" is a
+ * database, so the default is the database named in the connection URL.
+ *
+ * Profiling reads row counts and average row lengths from information_schema
+ * (InnoDB estimates) and counts children per parent for each FK. MySQL keeps
+ * no per-column null or distinct statistics there, so columns are not profiled.
+ * JSON sampling reads the first rows of each table with JSON columns.
+ */
+export class MySqlSource implements SchemaSource {
+  readonly type = "mysql";
+  readonly dialect = "mysql";
+  readonly defaultSchema: string;
+  private connectionString: string;
+  private connection: Connection | undefined;
+
+  constructor(connectionString: string) {
+    this.connectionString = connectionString;
+    this.defaultSchema = databaseFromUrl(connectionString);
+  }
+
+  async connect(): Promise<void> {
+    this.connection = await createConnection(this.connectionString);
+  }
+
+  async loadSchema(schemas: string[]): Promise<SqlSchema> {
+    const parts: Array<{ schema: string; sqlSchema: SqlSchema }> = [];
+    for (const schema of schemas) {
+      parts.push({ schema, sqlSchema: await this.loadOneSchema(schema) });
+    }
+    return combineSchemas(parts);
+  }
+
+  async profileSchema(sqlSchema: SqlSchema): Promise<SqlSchema> {
+    const conn = this.requireConnection();
+    const schemas = Array.from(new Set(sqlSchema.tables.map((t) => t.schema ?? this.defaultSchema)));
+    const tables = await loadTableStatistics(conn, schemas, tableLookup(sqlSchema.tables));
+    const fanOuts = await loadFanOuts(conn, sqlSchema, this.defaultSchema);
+    return applyProfile(sqlSchema, { tables, columns: new Map(), fanOuts });
+  }
+
+  async sampleJson(sqlSchema: SqlSchema, rows: number): Promise<SqlSchema> {
+    const conn = this.requireConnection();
+    const samples = new Map<string, Map<string, unknown[]>>();
+    for (const table of sqlSchema.tables) {
+      const columns = jsonColumns(table);
+      if (columns.length === 0) continue;
+      const quoted = columns.map(quoteIdentifier);
+      const [result, fields] = await conn.query<RowDataPacket[]>(
+        `SELECT ${quoted.join(", ")} FROM ${quoteIdentifier(table.schema ?? this.defaultSchema)}.${quoteIdentifier(
+          bareTableName(table),
+        )} WHERE ${quoted.map((c) => `${c} IS NOT NULL`).join(" OR ")} LIMIT ?`,
+        [rows],
+      );
+      samples.set(
+        table.name,
+        new Map(columns.map((col) => [col, result.map((row) => jsonValue(row[col], fields, col))])),
+      );
+    }
+    return applyJsonSamples(sqlSchema, samples);
+  }
+
+  async close(): Promise<void> {
+    await this.connection?.end();
+    this.connection = undefined;
+  }
+
+  private async loadOneSchema(schema: string): Promise<SqlSchema> {
+    const conn = this.requireConnection();
+    const tables = await loadTables(conn, schema);
+    const foreignKeys = await loadForeignKeys(conn, schema);
+    const checkConstraints = await loadCheckConstraints(conn, schema);
+    const indexes = await loadIndexes(conn, schema);
+    return {
+      tables,
+      foreignKeys,
+      ...(checkConstraints.length > 0 ? { checkConstraints } : {}),
+      ...(indexes.length > 0 ? { indexes } : {}),
+    };
+  }
+
+  private requireConnection(): Connection {
+    if (!this.connection) {
+      throw new Error("MySQL source is not connected");
+    }
+    return this.connection;
+  }
+}
+
+function databaseFromUrl(connectionString: string): string {
+  try {
+    return decodeURIComponent(new URL(connectionString).pathname.replace(/^\//, ""));
+  } catch {
+    return "";
+  }
+}
+
+async function loadTables(conn: Connection, schema: string): Promise<SqlTable[]> {
+  const [tableRows] = await conn.query<RowDataPacket[]>(
+    `
+    SELECT TABLE_NAME AS table_name, TABLE_COMMENT AS table_comment
+    FROM information_schema.TABLES
+    WHERE TABLE_SCHEMA = ?
+      AND TABLE_TYPE = 'BASE TABLE'
+    ORDER BY TABLE_NAME
+    `,
+    [schema],
+  );
+
+  const columnsByTable = await loadColumns(conn, schema);
+  const keysByTable = await loadKeyConstraints(conn, schema);
+
+  return tableRows.map((row) => {
+    const name = String(row.table_name);
+    const keys = keysByTable.get(name);
+    // MySQL reports a missing comment as an empty string.
+    const comment = row.table_comment ? String(row.table_comment) : "";
+    return {
+      name,
+      columns: columnsByTable.get(name) ?? [],
+      primaryKey: keys?.primaryKey ?? [],
+      uniqueConstraints: keys?.uniqueConstraints ?? [],
+      ...(comment ? { comment } : {}),
+    };
+  });
+}
+
+async function loadColumns(
+  conn: Connection,
+  schema: string,
+): Promise<Map<string, SqlColumn[]>> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `
+    SELECT
+      TABLE_NAME AS table_name,
+      COLUMN_NAME AS column_name,
+      COLUMN_TYPE AS column_type,
+      IS_NULLABLE AS is_nullable,
+      COLUMN_DEFAULT AS column_default,
+      EXTRA AS extra,
+      COLUMN_COMMENT AS column_comment
+    FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = ?
+    ORDER BY TABLE_NAME, ORDINAL_POSITION
+    `,
+    [schema],
+  );
+
+  // COLUMN_TYPE keeps the display width and ENUM labels, so the DDL
+  // dialect's mapping (e.g. tinyint(1) → boolean) applies unchanged.
+  const byTable = new Map<string, SqlColumn[]>();
+  for (const row of rows) {
+    const table = String(row.table_name);
+    const list = byTable.get(table) ?? [];
+    const { type, ...typeDetails } = describeColumnType(String(row.column_type), "mysql");
+    list.push({
+      name: String(row.column_name),
+      type,
+      nullable: row.is_nullable === "YES",
+      isPrimaryKey: false, // will be refined from constraints
+      isUnique: false, // will be refined from constraints
+      hasDefault:
+        row.column_default != null ||
+        /auto_increment/i.test(String(row.extra ?? "")),
+      ...typeDetails,
+      ...(row.column_default != null
+        ? { defaultExpression: String(row.column_default) }
+        : {}),
+      ...(row.column_comment ? { comment: String(row.column_comment) } : {}),
+    });
+    byTable.set(table, list);
+  }
+  return byTable;
+}
+
+async function loadKeyConstraints(
+  conn: Connection,
+  schema: string,
+): Promise<Map<string, { primaryKey: string[]; uniqueConstraints: string[][] }>> {
+  // Every MySQL primary key is named PRIMARY, so the join must include the table.
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `
+    SELECT
+      tc.TABLE_NAME AS table_name,
+      tc.CONSTRAINT_NAME AS constraint_name,
+      tc.CONSTRAINT_TYPE AS constraint_type,
+      kcu.COLUMN_NAME AS column_name
+    FROM information_schema.TABLE_CONSTRAINTS tc
+    JOIN information_schema.KEY_COLUMN_USAGE kcu
+      ON tc.CONSTRAINT_SCHEMA = kcu.CONSTRAINT_SCHEMA
+     AND tc.CONSTRAINT_NAME = kcu.CONSTRAINT_NAME
+     AND tc.TABLE_NAME = kcu.TABLE_NAME
+    WHERE tc.TABLE_SCHEMA = ?
+      AND tc.CONSTRAINT_TYPE IN ('PRIMARY KEY', 'UNIQUE')
+    ORDER BY tc.TABLE_NAME, tc.CONSTRAINT_NAME, kcu.ORDINAL_POSITION
+    `,
+    [schema],
+  );
+
+  const byTable = new Map<string, { primaryKey: string[]; uniqueConstraints: string[][] }>();
+  const uniqueByConstraint = new Map<string, string[]>();
+  for (const row of rows) {
+    const table = String(row.table_name);
+    const keys = byTable.get(table) ?? { primaryKey: [], uniqueConstraints: [] };
+    byTable.set(table, keys);
+
+    if (row.constraint_type === "PRIMARY KEY") {
+      keys.primaryKey.push(String(row.column_name));
+      continue;
+    }
+    const key = `${table}\u0000${row.constraint_name}`;
+    let columns = uniqueByConstraint.get(key);
+    if (!columns) {
+      columns = [];
+      uniqueByConstraint.set(key, columns);
+      keys.uniqueConstraints.push(columns);
+    }
+    columns.push(String(row.column_name));
+  }
+  return byTable;
+}
+
+async function loadForeignKeys(
+  conn: Connection,
+  schema: string,
+): Promise<SqlForeignKey[]> {
+  // Unlike Postgres, KEY_COLUMN_USAGE carries the referenced column on each
+  // row, so composite keys keep their positional pairing.
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `
+    SELECT
+      CONSTRAINT_NAME AS constraint_name,
+      TABLE_NAME AS from_table,
+      COLUMN_NAME AS from_column,
+      REFERENCED_TABLE_SCHEMA AS to_schema,
+      REFERENCED_TABLE_NAME AS to_table,
+      REFERENCED_COLUMN_NAME AS to_column
+    FROM information_schema.KEY_COLUMN_USAGE
+    WHERE TABLE_SCHEMA = ?
+      AND REFERENCED_TABLE_NAME IS NOT NULL
+    ORDER BY TABLE_NAME, CONSTRAINT_NAME, ORDINAL_POSITION
+    `,
+    [schema],
+  );
+
+  const byConstraint = new Map<string, SqlForeignKey>();
+  for (const row of rows) {
+    const key = `${row.from_table}\u0000${row.constraint_name}`;
+    let fk = byConstraint.get(key);
+    if (!fk) {
+      fk = {
+        name: String(row.constraint_name),
+        fromTable: String(row.from_table),
+        fromColumn: String(row.from_column),
+        fromColumns: [],
+        // Targets in another database keep it, e.g. auth.users.
+        toTable:
+          row.to_schema === schema
+            ? String(row.to_table)
+            : `${String(row.to_schema)}.${String(row.to_table)}`,
+        toColumn: String(row.to_column),
+        toColumns: [],
+        // Placeholder; refined by inferCardinality() in buildAnalysisResult.
+        cardinality: "one-to-many",
+      };
+      byConstraint.set(key, fk);
+    }
+    fk.fromColumns.push(String(row.from_column));
+    fk.toColumns.push(String(row.to_column));
+  }
+
+  return Array.from(byConstraint.values());
+}
+
+async function loadIndexes(conn: Connection, schema: string): Promise<SqlIndex[]> {
+  // Unique indexes are UNIQUE constraints in MySQL and already part of the
+  // table's keys, so only non-unique ones are listed. Functional key parts
+  // (8.0.13+) have no COLUMN_NAME; such indexes are skipped as a whole.
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `
+    SELECT
+      TABLE_NAME AS table_name,
+      INDEX_NAME AS index_name,
+      COLUMN_NAME AS column_name,
+      COLLATION AS collation,
+      INDEX_TYPE AS index_type
+    FROM information_schema.STATISTICS
+    WHERE TABLE_SCHEMA = ?
+      AND NON_UNIQUE = 1
+    ORDER BY TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX
+    `,
+    [schema],
+  );
+
+  const byIndex = new Map<string, SqlIndex | null>();
+  for (const row of rows) {
+    const key = `${row.table_name}\u0000${row.index_name}`;
+    let index = byIndex.get(key);
+    if (index === null) continue;
+    if (row.column_name == null) {
+      byIndex.set(key, null);
+      continue;
+    }
+    if (!index) {
+      const method = String(row.index_type ?? "").toLowerCase();
+      index = {
+        name: String(row.index_name),
+        table: String(row.table_name),
+        keys: [],
+        unique: false,
+        ...(method ? { method } : {}),
+      };
+      byIndex.set(key, index);
+    }
+    index.keys.push({
+      column: String(row.column_name),
+      ...(row.collation === "D" ? { descending: true } : {}),
+    });
+  }
+
+  return Array.from(byIndex.values()).filter((index): index is SqlIndex => index !== null);
+}
+
+async function loadCheckConstraints(
+  conn: Connection,
+  schema: string,
+): Promise<SqlCheckConstraint[]> {
+  // CHECK_CONSTRAINTS exists from MySQL 8.0.16 / MariaDB 10.2; older servers
+  // never enforced CHECK, so there is nothing to report there.
+  let rows: RowDataPacket[];
+  try {
+    [rows] = await conn.query<RowDataPacket[]>(
+      `
+      SELECT
+        tc.TABLE_NAME AS table_name,
+        cc.CONSTRAINT_NAME AS constraint_name,
+        cc.CHECK_CLAUSE AS check_clause
+      FROM information_schema.CHECK_CONSTRAINTS cc
+      JOIN information_schema.TABLE_CONSTRAINTS tc
+        ON tc.CONSTRAINT_SCHEMA = cc.CONSTRAINT_SCHEMA
+       AND tc.CONSTRAINT_NAME = cc.CONSTRAINT_NAME
+      WHERE cc.CONSTRAINT_SCHEMA = ?
+        AND tc.CONSTRAINT_TYPE = 'CHECK'
+      ORDER BY tc.TABLE_NAME, cc.CONSTRAINT_NAME
+      `,
+      [schema],
+    );
+  } catch {
+    return [];
+  }
+
+  return rows.map((row) =>
+    parseCheckConstraint(
+      String(row.table_name),
+      String(row.check_clause),
+      String(row.constraint_name),
+    ),
+  );
+}
+
+async function loadTableStatistics(
+  conn: Connection,
+  schemas: string[],
+  lookup: (schema: string, table: string) => string | undefined,
+): Promise<Map<string, SqlTableStatistics>> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `
+    SELECT
+      TABLE_SCHEMA AS schema_name,
+      TABLE_NAME AS table_name,
+      TABLE_ROWS AS row_count,
+      AVG_ROW_LENGTH AS avg_row_length
+    FROM information_schema.TABLES
+    WHERE TABLE_SCHEMA IN (?)
+      AND TABLE_TYPE = 'BASE TABLE'
+    `,
+    [schemas],
+  );
+
+  const byTable = new Map<string, SqlTableStatistics>();
+  for (const row of rows) {
+    const table = lookup(String(row.schema_name), String(row.table_name));
+    if (!table || row.row_count == null) continue;
+    byTable.set(table, {
+      rowCount: Number(row.row_count),
+      ...(Number(row.avg_row_length) > 0 ? { avgRowBytes: Number(row.avg_row_length) } : {}),
+    });
+  }
+  return byTable;
+}
+
+async function loadFanOuts(
+  conn: Connection,
+  sqlSchema: SqlSchema,
+  defaultSchema: string,
+): Promise<Map<SqlForeignKey, SqlForeignKeyFanOut>> {
+  // Without percentile functions, the 95th percentile is read in a second
+  // query as the group size at its position in ascending order.
+  const byForeignKey = new Map<SqlForeignKey, SqlForeignKeyFanOut>();
+  for (const fk of sqlSchema.foreignKeys) {
+    const child = sqlSchema.tables.find((t) => t.name === fk.fromTable);
+    if (!child) continue;
+    const columns = fk.fromColumns.map(quoteIdentifier);
+    const groups = `
+      SELECT COUNT(*) AS n
+      FROM ${quoteIdentifier(child.schema ?? defaultSchema)}.${quoteIdentifier(bareTableName(child))}
+      WHERE ${columns.map((c) => `${c} IS NOT NULL`).join(" AND ")}
+      GROUP BY ${columns.join(", ")}
+    `;
+    const [[summary]] = await conn.query<RowDataPacket[]>(
+      `SELECT COUNT(*) AS parents, MAX(n) AS max_children, AVG(n) AS avg_children FROM (${groups}) children`,
+    );
+    const parents = Number(summary.parents);
+    let p95Children = 0;
+    if (parents > 0) {
+      const [[p95]] = await conn.query<RowDataPacket[]>(
+        `SELECT n FROM (${groups}) children ORDER BY n LIMIT 1 OFFSET ?`,
+        [Math.ceil(parents * 0.95) - 1],
+      );
+      p95Children = Number(p95?.n ?? 0);
+    }
+    byForeignKey.set(fk, {
+      parents,
+      maxChildren: Number(summary.max_children ?? 0),
+      p95Children,
+      avgChildren: Number(summary.avg_children ?? 0),
+    });
+  }
+  return byForeignKey;
+}
+
+function quoteIdentifier(name: string): string {
+  return `\`${name.replace(/`/g, "``")}\``;
+}
+
+/**
+ * MySQL JSON columns arrive parsed; MariaDB's JSON is an alias of LONGTEXT
+ * and arrives as text, which is parsed here (and kept as is if invalid).
+ */
+function jsonValue(value: unknown, fields: FieldPacket[], column: string): unknown {
+  const field = fields.find((f) => f.name === column);
+  if (typeof value !== "string" || field?.type === Types.JSON) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
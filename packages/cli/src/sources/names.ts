@@ -0,0 +1,74 @@
+import type {
+  SqlCheckConstraint,
+  SqlEnumType,
+  SqlForeignKey,
+  SqlIndex,
+  SqlSchema,
+  SqlTable,
+} from "@s2n/core";
+
+/** "public.album" → { schema: "public", table: "album" }; "album" has no schema. */
+export function splitQualifiedName(name: string): { schema?: string; table: string } {
+  const dot = name.lastIndexOf(".");
+  if (dot === -1) return { table: name };
+  return { schema: name.slice(0, dot), table: name.slice(dot + 1) };
+}
+
+/**
+ * How tables are named when `schemas` are analyzed: bare when there is a
+ * single schema and the table is in it, schema.table otherwise (several
+ * schemas, or an FK target outside the analyzed one).
+ */
+export function tableNamer(schemas: string[]): (schema: string, table: string) => string {
+  const only = schemas.length === 1 ? schemas[0] : undefined;
+  return (schema, table) => (!schema || schema === only ? table : `${schema}.${table}`);
+}
+
+/**
+ * Merge what a source read from each schema into one SqlSchema. Within a
+ * part, the schema's own tables are unqualified and FK targets in other
+ * schemas are schema.table. With several parts every table is qualified,
+ * so equal names in different schemas stay apart and cross-schema FKs
+ * match their target. Tables always record their schema, when there is one.
+ */
+export function combineSchemas(parts: Array<{ schema: string; sqlSchema: SqlSchema }>): SqlSchema {
+  const tables: SqlTable[] = [];
+  const foreignKeys: SqlForeignKey[] = [];
+  const checkConstraints: SqlCheckConstraint[] = [];
+  const indexes: SqlIndex[] = [];
+  const enums = new Map<string, SqlEnumType>();
+
+  const nameTable = tableNamer(parts.map((part) => part.schema));
+
+  for (const { schema, sqlSchema } of parts) {
+    const own = (name: string): string => nameTable(schema, name);
+    const target = (name: string): string => {
+      const qualified = splitQualifiedName(name);
+      return qualified.schema == null ? own(name) : nameTable(qualified.schema, qualified.table);
+    };
+
+    for (const table of sqlSchema.tables) {
+      tables.push({ ...table, name: own(table.name), ...(schema ? { schema } : {}) });
+    }
+    for (const fk of sqlSchema.foreignKeys) {
+      foreignKeys.push({ ...fk, fromTable: own(fk.fromTable), toTable: target(fk.toTable) });
+    }
+    for (const check of sqlSchema.checkConstraints ?? []) {
+      checkConstraints.push({ ...check, table: own(check.table) });
+    }
+    for (const index of sqlSchema.indexes ?? []) {
+      indexes.push({ ...index, table: own(index.table) });
+    }
+    for (const type of sqlSchema.enums ?? []) {
+      if (!enums.has(type.name)) enums.set(type.name, type);
+    }
+  }
+
+  return {
+    tables,
+    foreignKeys,
+    ...(enums.size > 0 ? { enums: Array.from(enums.values()) } : {}),
+    ...(checkConstraints.length > 0 ? { checkConstraints } : {}),
+    ...(indexes.length > 0 ? { indexes } : {}),
+  };
+}
@@ -0,0 +1,684 @@
+import { Client } from "pg";
+import {
+  bareTableName,
+  describeColumnType,
+  parseCheckConstraint,
+  parseIndexDefinition,
+  type SqlCheckConstraint,
+  type SqlColumn,
+  type SqlColumnStatistics,
+  type SqlEnumType,
+  type SqlForeignKey,
+  type SqlForeignKeyFanOut,
+  type SqlIndex,
+  type SqlSchema,
+  type SqlTable,
+  type SqlTablePartition,
+  type SqlTableStatistics,
+} from "@s2n/core";
+import { tableNamer } from "./names";
+import {
+  applyJsonSamples,
+  applyProfile,
+  jsonColumns,
+  sumColumnBytes,
+  tableLookup,
+} from "./profile";
+import type { SchemaSource } from "./types";
+
+// Postgres introspection reads pg_catalog with one set-based query per kind
+// of object (tables, columns, keys, partitions, FKs, checks, indexes),
+// covering every analyzed schema at once, so the number of round trips does
+// not grow with the number of tables. Unlike information_schema, pg_catalog
+// also exposes partitioning, typmods, array dimensions and enum labels.
+//
+// Partitions are not tables of their own: they are listed under their root
+// partitioned table, whose rows they hold. Constraints and indexes that
+// Postgres clones onto each partition are skipped for the same reason.
+//
+// The catalog columns and functions used need PostgreSQL 12
+// (pg_partition_tree, pg_attribute.attgenerated; pg_constraint.conparentid
+// is 11); connecting to an older server fails with a message saying so.
+//
+// Profiling reads the planner's statistics (pg_class.reltuples, pg_stats),
+// which are as fresh as the last ANALYZE, and counts children per parent
+// with one GROUP BY query per foreign key, which scans the referencing table.
+// JSON sampling reads the first rows of each table that has json / jsonb
+// columns, one query per table.
+
+/** Relations analyzed as tables: ordinary and partitioned tables that are not partitions. */
+const TABLE_RELATIONS = `c.relkind IN ('r', 'p') AND NOT c.relispartition`;
+
+/** Oldest server_version_num whose pg_catalog the introspection queries read. */
+const MIN_SERVER_VERSION = 120000;
+
+export class PostgresSource implements SchemaSource {
+  readonly type = "postgres";
+  readonly dialect = "postgres";
+  readonly defaultSchema = "public";
+  private client: Client;
+
+  constructor(connectionString: string) {
+    this.client = new Client({ connectionString });
+  }
+
+  async connect(): Promise<void> {
+    await this.client.connect();
+    const res = await this.client.query<{ version: string }>(
+      "SELECT current_setting('server_version_num') AS version",
+    );
+    const version = Number(res.rows[0]?.version);
+    if (version < MIN_SERVER_VERSION) {
+      await this.client.end();
+      throw new Error(
+        `PostgreSQL ${Math.floor(version / 10000)} is not supported: analyzing a live database needs PostgreSQL 12 or later. Use --ddl with a schema dump (pg_dump --schema-only) instead.`,
+      );
+    }
+  }
+
+  async loadSchema(schemas: string[]): Promise<SqlSchema> {
+    const nameTable = tableNamer(schemas);
+    const tables = await loadTables(this.client, schemas, nameTable);
+    const foreignKeys = await loadForeignKeys(this.client, schemas, nameTable);
+    const checkConstraints = await loadCheckConstraints(this.client, schemas, nameTable);
+    const indexes = await loadIndexes(this.client, schemas, nameTable);
+    const enums = collectEnums(tables);
+    return {
+      tables,
+      foreignKeys,
+      ...(enums.length > 0 ? { enums } : {}),
+      ...(checkConstraints.length > 0 ? { checkConstraints } : {}),
+      ...(indexes.length > 0 ? { indexes } : {}),
+    };
+  }
+
+  async profileSchema(sqlSchema: SqlSchema): Promise<SqlSchema> {
+    const schemas = Array.from(new Set(sqlSchema.tables.map((t) => t.schema ?? this.defaultSchema)));
+    const lookup = tableLookup(sqlSchema.tables);
+    const tables = await loadTableStatistics(this.client, schemas, lookup);
+    const columns = await loadColumnStatistics(this.client, schemas, lookup, tables);
+    for (const [table, byColumn] of columns) {
+      const avgRowBytes = sumColumnBytes(byColumn);
+      if (avgRowBytes != null) tables.set(table, { ...tables.get(table), avgRowBytes });
+    }
+    const fanOuts = await loadFanOuts(this.client, sqlSchema);
+    return applyProfile(sqlSchema, { tables, columns, fanOuts });
+  }
+
+  async sampleJson(sqlSchema: SqlSchema, rows: number): Promise<SqlSchema> {
+    const samples = new Map<string, Map<string, unknown[]>>();
+    for (const table of sqlSchema.tables) {
+      const columns = jsonColumns(table);
+      if (columns.length === 0) continue;
+      const quoted = columns.map(quoteIdentifier);
+      // pg parses json and jsonb values into objects, arrays and scalars.
+      const res = await this.client.query<Record<string, unknown>>(
+        `SELECT ${quoted.join(", ")} FROM ${qualifiedTable(table)} WHERE ${quoted
+          .map((c) => `${c} IS NOT NULL`)
+          .join(" OR ")} LIMIT $1`,
+        [rows],
+      );
+      samples.set(
+        table.name,
+        new Map(columns.map((col) => [col, res.rows.map((row) => row[col])])),
+      );
+    }
+    return applyJsonSamples(sqlSchema, samples);
+  }
+
+  async close(): Promise<void> {
+    await this.client.end();
+  }
+}
+
+type TableNamer = (schema: string, table: string) => string;
+
+async function loadTables(
+  client: Client,
+  schemas: string[],
+  nameTable: TableNamer,
+): Promise<SqlTable[]> {
+  // Comments live in pg_description; obj_description() reads it.
+  const res = await client.query<{
+    table_oid: number;
+    schema_name: string;
+    table_name: string;
+    table_comment: string | null;
+    partition_key: string | null;
+  }>(
+    `
+    SELECT
+      c.oid AS table_oid,
+      n.nspname AS schema_name,
+      c.relname AS table_name,
+      obj_description(c.oid, 'pg_class') AS table_comment,
+      CASE WHEN c.relkind = 'p' THEN pg_get_partkeydef(c.oid) END AS partition_key
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = ANY($1)
+      AND ${TABLE_RELATIONS}
+    ORDER BY c.relname
+    `,
+    [schemas],
+  );
+
+  const columnsByTable = await loadColumns(client, schemas);
+  const keysByTable = await loadKeys(client, schemas);
+  const partitionsByTable = await loadPartitions(client, schemas);
+
+  const rows = [...res.rows].sort(
+    (a, b) => schemas.indexOf(a.schema_name) - schemas.indexOf(b.schema_name),
+  );
+  return rows.map((row) => {
+    const keys = keysByTable.get(row.table_oid);
+    const primaryKey = keys?.primaryKey ?? [];
+    const uniqueConstraints = keys?.uniqueConstraints ?? [];
+    const columns = (columnsByTable.get(row.table_oid) ?? []).map((col) => ({
+      ...col,
+      isPrimaryKey: primaryKey.includes(col.name),
+      isUnique: uniqueConstraints.some((uc) => uc.length === 1 && uc[0] === col.name),
+    }));
+    const partitions = partitionsByTable.get(row.table_oid);
+    return {
+      name: nameTable(row.schema_name, row.table_name),
+      schema: row.schema_name,
+      columns,
+      primaryKey,
+      uniqueConstraints,
+      ...(row.table_comment ? { comment: row.table_comment } : {}),
+      ...(row.partition_key ? { partitionKey: row.partition_key } : {}),
+      ...(partitions ? { partitions } : {}),
+    };
+  });
+}
+
+async function loadColumns(
+  client: Client,
+  schemas: string[],
+): Promise<Map<number, SqlColumn[]>> {
+  // format_type() keeps the declared type (e.g. "numeric(12,2)", "text[]").
+  // Enum columns (and arrays of enums) carry their labels from pg_enum.
+  // Generated columns have a generation expression, not a default.
+  const res = await client.query<{
+    table_oid: number;
+    column_name: string;
+    formatted_type: string;
+    array_dimensions: number;
+    not_null: boolean;
+    column_default: string | null;
+    is_generated: boolean;
+    enum_type: string | null;
+    enum_values: string[] | null;
+    column_comment: string | null;
+  }>(
+    `
+    SELECT
+      a.attrelid AS table_oid,
+      a.attname AS column_name,
+      format_type(a.atttypid, a.atttypmod) AS formatted_type,
+      a.attndims AS array_dimensions,
+      a.attnotnull AS not_null,
+      CASE WHEN a.attgenerated = '' THEN pg_get_expr(d.adbin, d.adrelid) END AS column_default,
+      a.attidentity <> '' OR a.attgenerated <> '' AS is_generated,
+      format_type(et.oid, NULL) AS enum_type,
+      labels.enum_values,
+      col_description(a.attrelid, a.attnum) AS column_comment
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_type t ON t.oid = a.atttypid
+    LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+    LEFT JOIN pg_type et
+      ON et.oid = CASE WHEN t.typelem <> 0 THEN t.typelem ELSE t.oid END
+     AND et.typtype = 'e'
+    LEFT JOIN (
+      SELECT enumtypid, array_agg(enumlabel::text ORDER BY enumsortorder) AS enum_values
+      FROM pg_enum
+      GROUP BY enumtypid
+    ) labels ON labels.enumtypid = et.oid
+    WHERE n.nspname = ANY($1)
+      AND ${TABLE_RELATIONS}
+      AND a.attnum > 0
+      AND NOT a.attisdropped
+    ORDER BY a.attrelid, a.attnum
+    `,
+    [schemas],
+  );
+
+  const byTable = new Map<number, SqlColumn[]>();
+  for (const row of res.rows) {
+    const { type, ...typeDetails } = describeColumnType(row.formatted_type, "postgres");
+    // format_type() prints one [] whatever the declared dimensions.
+    if (type === "array" && row.array_dimensions > 1) {
+      typeDetails.arrayDimensions = row.array_dimensions;
+    }
+    const column: SqlColumn = {
+      name: row.column_name,
+      type,
+      nullable: !row.not_null,
+      isPrimaryKey: false, // set from the table's keys
+      isUnique: false, // set from the table's keys
+      hasDefault: row.column_default != null || row.is_generated,
+      ...typeDetails,
+      ...(row.column_default != null ? { defaultExpression: row.column_default } : {}),
+      ...(row.column_comment ? { comment: row.column_comment } : {}),
+    };
+    if (row.enum_type && row.enum_values) {
+      if (type === "array") column.elementType = "enum";
+      else column.type = "enum";
+      column.enumType = row.enum_type;
+      column.enumValues = row.enum_values;
+    }
+    const list = byTable.get(row.table_oid) ?? [];
+    list.push(column);
+    byTable.set(row.table_oid, list);
+  }
+  return byTable;
+}
+
+async function loadKeys(
+  client: Client,
+  schemas: string[],
+): Promise<Map<number, { primaryKey: string[]; uniqueConstraints: string[][] }>> {
+  // conkey lists the key columns in constraint order.
+  const res = await client.query<{
+    table_oid: number;
+    constraint_type: "p" | "u";
+    columns: string[];
+  }>(
+    `
+    SELECT
+      con.conrelid AS table_oid,
+      con.contype AS constraint_type,
+      array_agg(a.attname::text ORDER BY k.ord) AS columns
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    CROSS JOIN LATERAL unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+    JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+    WHERE con.contype IN ('p', 'u')
+      AND n.nspname = ANY($1)
+      AND ${TABLE_RELATIONS}
+    GROUP BY con.conrelid, con.contype, con.conname
+    ORDER BY con.conrelid, con.conname
+    `,
+    [schemas],
+  );
+
+  const byTable = new Map<number, { primaryKey: string[]; uniqueConstraints: string[][] }>();
+  for (const row of res.rows) {
+    const keys = byTable.get(row.table_oid) ?? { primaryKey: [], uniqueConstraints: [] };
+    if (row.constraint_type === "p") keys.primaryKey = row.columns;
+    else keys.uniqueConstraints.push(row.columns);
+    byTable.set(row.table_oid, keys);
+  }
+  return byTable;
+}
+
+async function loadPartitions(
+  client: Client,
+  schemas: string[],
+): Promise<Map<number, SqlTablePartition[]>> {
+  // Walk pg_inherits down from each root partitioned table, so
+  // sub-partitions are listed under the root as well.
+  const res = await client.query<{
+    root_oid: number;
+    root_schema: string;
+    schema_name: string;
+    partition_name: string;
+    bound: string | null;
+  }>(
+    `
+    WITH RECURSIVE tree AS (
+      SELECT inh.inhparent AS root_oid, inh.inhrelid AS partition_oid
+      FROM pg_inherits inh
+      JOIN pg_class c ON c.oid = inh.inhparent
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE c.relkind = 'p'
+        AND NOT c.relispartition
+        AND n.nspname = ANY($1)
+      UNION ALL
+      SELECT tree.root_oid, inh.inhrelid
+      FROM tree
+      JOIN pg_inherits inh ON inh.inhparent = tree.partition_oid
+    )
+    SELECT
+      tree.root_oid,
+      root_ns.nspname AS root_schema,
+      n.nspname AS schema_name,
+      c.relname AS partition_name,
+      pg_get_expr(c.relpartbound, c.oid) AS bound
+    FROM tree
+    JOIN pg_class root ON root.oid = tree.root_oid
+    JOIN pg_namespace root_ns ON root_ns.oid = root.relnamespace
+    JOIN pg_class c ON c.oid = tree.partition_oid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    ORDER BY tree.root_oid, c.relname
+    `,
+    [schemas],
+  );
+
+  const byTable = new Map<number, SqlTablePartition[]>();
+  for (const row of res.rows) {
+    const list = byTable.get(row.root_oid) ?? [];
+    list.push({
+      name:
+        row.schema_name === row.root_schema
+          ? row.partition_name
+          : `${row.schema_name}.${row.partition_name}`,
+      ...(row.bound ? { bound: row.bound } : {}),
+    });
+    byTable.set(row.root_oid, list);
+  }
+  return byTable;
+}
+
+async function loadForeignKeys(
+  client: Client,
+  schemas: string[],
+  nameTable: TableNamer,
+): Promise<SqlForeignKey[]> {
+  // Unnest conkey/confkey together to keep the positional pairing of
+  // composite keys. FKs cloned onto partitions (or onto the partitions of a
+  // referenced partitioned table) have a parent constraint and are skipped.
+  const res = await client.query<{
+    constraint_name: string;
+    from_schema: string;
+    from_table: string;
+    from_columns: string[];
+    to_schema: string;
+    to_table: string;
+    to_columns: string[];
+  }>(
+    `
+    SELECT
+      con.conname AS constraint_name,
+      n.nspname AS from_schema,
+      c.relname AS from_table,
+      array_agg(src_att.attname::text ORDER BY cols.ord) AS from_columns,
+      tgt_ns.nspname AS to_schema,
+      tgt.relname AS to_table,
+      array_agg(tgt_att.attname::text ORDER BY cols.ord) AS to_columns
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_class tgt ON tgt.oid = con.confrelid
+    JOIN pg_namespace tgt_ns ON tgt_ns.oid = tgt.relnamespace
+    CROSS JOIN LATERAL unnest(con.conkey, con.confkey)
+      WITH ORDINALITY AS cols(from_attnum, to_attnum, ord)
+    JOIN pg_attribute src_att
+      ON src_att.attrelid = con.conrelid
+     AND src_att.attnum = cols.from_attnum
+    JOIN pg_attribute tgt_att
+      ON tgt_att.attrelid = con.confrelid
+     AND tgt_att.attnum = cols.to_attnum
+    WHERE con.contype = 'f'
+      AND con.conparentid = 0
+      AND n.nspname = ANY($1)
+      AND ${TABLE_RELATIONS}
+    GROUP BY con.oid, con.conname, n.nspname, c.relname, tgt_ns.nspname, tgt.relname
+    ORDER BY c.relname, con.conname
+    `,
+    [schemas],
+  );
+
+  return res.rows.map((row) => ({
+    name: row.constraint_name,
+    fromTable: nameTable(row.from_schema, row.from_table),
+    fromColumn: row.from_columns[0],
+    fromColumns: row.from_columns,
+    // Targets outside the analyzed schema keep their schema, e.g. auth.users.
+    toTable: nameTable(row.to_schema, row.to_table),
+    toColumn: row.to_columns[0],
+    toColumns: row.to_columns,
+    // Placeholder; refined by inferCardinality() in buildAnalysisResult.
+    cardinality: "one-to-many",
+  }));
+}
+
+async function loadCheckConstraints(
+  client: Client,
+  schemas: string[],
+  nameTable: TableNamer,
+): Promise<SqlCheckConstraint[]> {
+  // pg_get_constraintdef() prints the stored form, e.g.
+  // "CHECK ((status = ANY (ARRAY['a'::text, 'b'::text])))"; NOT NULL
+  // constraints are not listed here.
+  const res = await client.query<{
+    constraint_name: string;
+    schema_name: string;
+    table_name: string;
+    definition: string;
+  }>(
+    `
+    SELECT
+      con.conname AS constraint_name,
+      n.nspname AS schema_name,
+      c.relname AS table_name,
+      pg_get_constraintdef(con.oid) AS definition
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE con.contype = 'c'
+      AND n.nspname = ANY($1)
+      AND ${TABLE_RELATIONS}
+    ORDER BY c.relname, con.conname
+    `,
+    [schemas],
+  );
+
+  return res.rows.map((row) => {
+    const expression = row.definition
+      .replace(/^\s*CHECK\s*/i, "")
+      .replace(/\s+NOT\s+VALID\s*$/i, "");
+    return parseCheckConstraint(
+      nameTable(row.schema_name, row.table_name),
+      expression,
+      row.constraint_name,
+    );
+  });
+}
+
+async function loadIndexes(
+  client: Client,
+  schemas: string[],
+  nameTable: TableNamer,
+): Promise<SqlIndex[]> {
+  // pg_get_indexdef() is a complete CREATE INDEX statement, so the DDL parser
+  // reads it. Indexes backing PRIMARY KEY / UNIQUE / EXCLUDE constraints are
+  // covered by the table's keys already; partitions' indexes by the parent's.
+  const res = await client.query<{
+    schema_name: string;
+    table_name: string;
+    index_def: string;
+  }>(
+    `
+    SELECT
+      n.nspname AS schema_name,
+      c.relname AS table_name,
+      pg_get_indexdef(i.indexrelid) AS index_def
+    FROM pg_index i
+    JOIN pg_class c ON c.oid = i.indrelid
+    JOIN pg_class ic ON ic.oid = i.indexrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = ANY($1)
+      AND ${TABLE_RELATIONS}
+      AND NOT EXISTS (
+        SELECT 1
+        FROM pg_constraint con
+        WHERE con.conindid = i.indexrelid
+          AND con.contype IN ('p', 'u', 'x')
+      )
+    ORDER BY c.relname, ic.relname
+    `,
+    [schemas],
+  );
+
+  const indexes: SqlIndex[] = [];
+  for (const row of res.rows) {
+    const index = parseIndexDefinition(row.index_def);
+    // The definition qualifies the table (ON public.album); name it like the tables.
+    if (index) indexes.push({ ...index, table: nameTable(row.schema_name, row.table_name) });
+  }
+  return indexes;
+}
+
+async function loadTableStatistics(
+  client: Client,
+  schemas: string[],
+  lookup: (schema: string, table: string) => string | undefined,
+): Promise<Map<string, SqlTableStatistics>> {
+  // reltuples is -1 until the table is first analyzed (Postgres 14+; 0
+  // before). A partitioned table holds no rows itself: sum its leaves.
+  const res = await client.query<{
+    schema_name: string;
+    table_name: string;
+    row_count: number | null;
+  }>(
+    `
+    SELECT
+      n.nspname AS schema_name,
+      c.relname AS table_name,
+      CASE
+        WHEN c.relkind = 'p' THEN (
+          SELECT sum(leaf.reltuples) FILTER (WHERE leaf.reltuples >= 0)
+          FROM pg_partition_tree(c.oid) tree
+          JOIN pg_class leaf ON leaf.oid = tree.relid
+          WHERE tree.isleaf
+        )
+        WHEN c.reltuples >= 0 THEN c.reltuples
+      END::float8 AS row_count
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = ANY($1)
+      AND ${TABLE_RELATIONS}
+    `,
+    [schemas],
+  );
+
+  const byTable = new Map<string, SqlTableStatistics>();
+  for (const row of res.rows) {
+    const table = lookup(row.schema_name, row.table_name);
+    if (table && row.row_count != null) byTable.set(table, { rowCount: Math.round(row.row_count) });
+  }
+  return byTable;
+}
+
+async function loadColumnStatistics(
+  client: Client,
+  schemas: string[],
+  lookup: (schema: string, table: string) => string | undefined,
+  tables: Map<string, SqlTableStatistics>,
+): Promise<Map<string, Map<string, SqlColumnStatistics>>> {
+  // Partitioned tables only have statistics over their whole tree
+  // (inherited); other tables use their own rows.
+  const res = await client.query<{
+    schema_name: string;
+    table_name: string;
+    column_name: string;
+    null_frac: number;
+    n_distinct: number;
+    avg_width: number;
+  }>(
+    `
+    SELECT
+      s.schemaname AS schema_name,
+      s.tablename AS table_name,
+      s.attname AS column_name,
+      s.null_frac::float8 AS null_frac,
+      s.n_distinct::float8 AS n_distinct,
+      s.avg_width
+    FROM pg_stats s
+    JOIN pg_namespace n ON n.nspname = s.schemaname
+    JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = s.tablename
+    WHERE s.schemaname = ANY($1)
+      AND ${TABLE_RELATIONS}
+      AND s.inherited = (c.relkind = 'p')
+    `,
+    [schemas],
+  );
+
+  const byTable = new Map<string, Map<string, SqlColumnStatistics>>();
+  for (const row of res.rows) {
+    const table = lookup(row.schema_name, row.table_name);
+    if (!table) continue;
+    // A negative n_distinct is a fraction of the row count (-1: all distinct).
+    const rowCount = tables.get(table)?.rowCount;
+    const distinctCount =
+      row.n_distinct >= 0
+        ? row.n_distinct
+        : rowCount != null
+          ? Math.round(-row.n_distinct * rowCount)
+          : undefined;
+    const columns = byTable.get(table) ?? new Map<string, SqlColumnStatistics>();
+    columns.set(row.column_name, {
+      nullFraction: row.null_frac,
+      ...(distinctCount != null ? { distinctCount } : {}),
+      avgBytes: row.avg_width,
+    });
+    byTable.set(table, columns);
+  }
+  return byTable;
+}
+
+async function loadFanOuts(
+  client: Client,
+  sqlSchema: SqlSchema,
+): Promise<Map<SqlForeignKey, SqlForeignKeyFanOut>> {
+  const byForeignKey = new Map<SqlForeignKey, SqlForeignKeyFanOut>();
+  for (const fk of sqlSchema.foreignKeys) {
+    const child = sqlSchema.tables.find((t) => t.name === fk.fromTable);
+    if (!child) continue;
+    const columns = fk.fromColumns.map(quoteIdentifier);
+    const res = await client.query<{
+      parents: number;
+      max_children: number | null;
+      p95_children: number | null;
+      avg_children: number | null;
+    }>(
+      `
+      SELECT
+        count(*)::float8 AS parents,
+        max(n)::float8 AS max_children,
+        percentile_disc(0.95) WITHIN GROUP (ORDER BY n)::float8 AS p95_children,
+        avg(n)::float8 AS avg_children
+      FROM (
+        SELECT count(*) AS n
+        FROM ${qualifiedTable(child)}
+        WHERE ${columns.map((c) => `${c} IS NOT NULL`).join(" AND ")}
+        GROUP BY ${columns.join(", ")}
+      ) children
+      `,
+    );
+    const row = res.rows[0];
+    byForeignKey.set(fk, {
+      parents: row.parents,
+      maxChildren: row.max_children ?? 0,
+      p95Children: row.p95_children ?? 0,
+      avgChildren: row.avg_children ?? 0,
+    });
+  }
+  return byForeignKey;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function qualifiedTable(table: SqlTable): string {
+  const name = quoteIdentifier(bareTableName(table));
+  return table.schema ? `${quoteIdentifier(table.schema)}.${name}` : name;
+}
+
+/** One entry per distinct enum type used by the tables' columns. */
+function collectEnums(tables: SqlTable[]): SqlEnumType[] {
+  const byName = new Map<string, SqlEnumType>();
+  for (const table of tables) {
+    for (const col of table.columns) {
+      if (col.enumType && col.enumValues && !byName.has(col.enumType)) {
+        byName.set(col.enumType, { name: col.enumType, values: col.enumValues });
+      }
+    }
+  }
+  return Array.from(byName.values());
+}
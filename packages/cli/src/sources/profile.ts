@@ -0,0 +1,97 @@
+import {
+  bareTableName,
+  inferJsonShape,
+  type SqlColumnStatistics,
+  type SqlForeignKey,
+  type SqlForeignKeyFanOut,
+  type SqlSchema,
+  type SqlTable,
+  type SqlTableStatistics,
+} from "@s2n/core";
+
+/** Statistics read by a source's profileSchema(), keyed by SqlTable.name. */
+export interface SchemaProfile {
+  tables: Map<string, SqlTableStatistics>;
+  /** Per table, keyed by column name. */
+  columns: Map<string, Map<string, SqlColumnStatistics>>;
+  fanOuts: Map<SqlForeignKey, SqlForeignKeyFanOut>;
+}
+
+/** Copy of `sqlSchema` with the profile attached to its tables, columns and FKs. */
+export function applyProfile(sqlSchema: SqlSchema, profile: SchemaProfile): SqlSchema {
+  return {
+    ...sqlSchema,
+    tables: sqlSchema.tables.map((table) => {
+      const statistics = profile.tables.get(table.name);
+      const columnStatistics = profile.columns.get(table.name);
+      return {
+        ...table,
+        columns: table.columns.map((col) => {
+          const stats = columnStatistics?.get(col.name);
+          return stats ? { ...col, statistics: stats } : col;
+        }),
+        ...(statistics ? { statistics } : {}),
+      };
+    }),
+    foreignKeys: sqlSchema.foreignKeys.map((fk) => {
+      const fanOut = profile.fanOuts.get(fk);
+      return fanOut ? { ...fk, fanOut } : fk;
+    }),
+  };
+}
+
+/**
+ * Resolve a table reported by the database (schema plus bare name) to the
+ * analyzed table's name; undefined for tables that are not analyzed.
+ */
+export function tableLookup(
+  tables: SqlTable[],
+): (schema: string, table: string) => string | undefined {
+  const byLocation = new Map(
+    tables.map((t) => [`${t.schema ?? ""}\u0000${bareTableName(t)}`, t.name]),
+  );
+  return (schema, table) => byLocation.get(`${schema}\u0000${table}`);
+}
+
+/** Average row width: the columns' average widths, weighted by how often they are set. */
+export function sumColumnBytes(columns: Map<string, SqlColumnStatistics>): number | undefined {
+  let total = 0;
+  let known = false;
+  for (const stats of columns.values()) {
+    if (stats.avgBytes == null) continue;
+    total += stats.avgBytes * (1 - (stats.nullFraction ?? 0));
+    known = true;
+  }
+  return known ? Math.round(total) : undefined;
+}
+
+/** json / jsonb columns of a table, the ones sampleJson() reads. */
+export function jsonColumns(table: SqlTable): string[] {
+  return table.columns
+    .filter((col) => col.type === "json" || col.type === "jsonb")
+    .map((col) => col.name);
+}
+
+/**
+ * Copy of `sqlSchema` with a JsonShape on each sampled column. `samples`
+ * holds parsed JSON values (null for SQL NULL) per table and column.
+ */
+export function applyJsonSamples(
+  sqlSchema: SqlSchema,
+  samples: Map<string, Map<string, unknown[]>>,
+): SqlSchema {
+  return {
+    ...sqlSchema,
+    tables: sqlSchema.tables.map((table) => {
+      const byColumn = samples.get(table.name);
+      if (!byColumn) return table;
+      return {
+        ...table,
+        columns: table.columns.map((col) => {
+          const values = byColumn.get(col.name);
+          return values ? { ...col, jsonShape: inferJsonShape(values) } : col;
+        }),
+      };
+    }),
+  };
+}
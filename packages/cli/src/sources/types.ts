@@ -0,0 +1,37 @@
+import type { SqlDiagnostic, SqlDialect, SqlSchema } from "@s2n/core";
+
+/** Where the analyze command reads the schema from: a live database or a DDL file. */
+export type SchemaSourceType = "postgres" | "mysql" | "ddl";
+
+/**
+ * A database connection (or DDL file) that can be introspected into a SqlSchema.
+ * Every source must produce the same shape so the rest of the pipeline
+ * (mapping, recommendations, scripts, views) does not care where it came from.
+ */
+export interface SchemaSource {
+  readonly type: SchemaSourceType;
+  /** SQL dialect of the database, or of the DDL file. */
+  readonly dialect: SqlDialect;
+  /** Schema analyzed when none is configured (read after connect()). */
+  readonly defaultSchema: string;
+  /** What parsing skipped, with positions; DDL files only (read after connect()). */
+  readonly diagnostics?: SqlDiagnostic[];
+  connect(): Promise<void>;
+  /**
+   * Tables of the given schemas. With more than one schema, table names are
+   * qualified (billing.invoice) and FKs may cross schemas; see combineSchemas.
+   */
+  loadSchema(schemas: string[]): Promise<SqlSchema>;
+  /**
+   * Attach statistics read from the data: row counts and widths, column
+   * null ratios and distinct counts, and children per parent for each FK
+   * (analyze --profile). Live databases only.
+   */
+  profileSchema?(sqlSchema: SqlSchema): Promise<SqlSchema>;
+  /**
+   * Read up to `rows` rows of each table's json / jsonb columns and attach
+   * the merged structure of their values (analyze --sample-json).
+   */
+  sampleJson?(sqlSchema: SqlSchema, rows: number): Promise<SqlSchema>;
+  close(): Promise<void>;
+}
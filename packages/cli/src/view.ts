@@ -2,11 +2,22 @@
  * HTML view generation for schema analysis (Tailwind, hacker theme: black + green, red/blue accents).
  */
 
-import type {
-  AnalysisResult,
-  NoSqlCollection,
-  SqlForeignKey,
-  SqlTable,
+import {
+  findCollectionForTable,
+  type AnalysisResult,
+  type DocumentSizeWarning,
+  type FoldedTable,
+  type JsonTypeConflict,
+  type LLMRecommendations,
+  type NoSqlArrayItems,
+  type NoSqlCollection,
+  type NoSqlField,
+  type NoSqlIndex,
+  type SqlColumn,
+  type SqlDiagnostic,
+  type SqlForeignKey,
+  type SqlIndex,
+  type SqlTable,
 } from "@s2n/core";
 import { escapeHtml } from "./utils";
 
@@ -35,6 +46,192 @@ function layout(
 </html>`;
 }
 
+function recommendationLabel(analysis: AnalysisResult): string {
+  return analysis.llmRecommendations?.engine === "rules" ? "Rule-based" : "LLM";
+}
+
+/** Field type label; arrays show their element type, e.g. array<reference>. */
+function renderFieldType(field: Pick<NoSqlField, "type" | "items">): string {
+  return field.items ? `${field.type}<${renderFieldType(field.items)}>` : field.type;
+}
+
+/** Allowed values and range of a field, e.g. "one of: a, b" or "≥ 0, < 100". */
+function renderFieldConstraints(field: NoSqlField): string {
+  const c = field.constraints;
+  if (!c) return "";
+  const parts: string[] = [];
+  if (c.allowedValues) {
+    parts.push(`one of: ${c.allowedValues.map((v) => String(v)).join(", ")}`);
+  }
+  if (c.minimum != null) parts.push(`${c.exclusiveMinimum ? ">" : "≥"} ${c.minimum}`);
+  if (c.maximum != null) parts.push(`${c.exclusiveMaximum ? "<" : "≤"} ${c.maximum}`);
+  return `<div class="text-xs text-green-600 mt-1">${escapeHtml(parts.join(", "))}</div>`;
+}
+
+/** e.g. "users_email_idx (lower(email), created_at DESC) unique WHERE active". */
+function renderSqlIndex(index: SqlIndex): string {
+  const keys = index.keys
+    .map((k) => `${k.column ?? k.expression}${k.descending ? " DESC" : ""}`)
+    .join(", ");
+  return [
+    `${index.name} (${keys})`,
+    index.unique ? "unique" : "",
+    index.method && index.method !== "btree" ? `using ${index.method}` : "",
+    index.where ? `WHERE ${index.where}` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/** unique, partial filter, collation and TTL of a proposed MongoDB index. */
+function renderIndexOptions(index: NoSqlIndex): string {
+  const options: string[] = [];
+  if (index.unique) options.push("unique");
+  if (index.partialFilterExpression) {
+    options.push(`partial ${JSON.stringify(index.partialFilterExpression)}`);
+  }
+  if (index.collation) options.push(`collation ${index.collation.locale}/${index.collation.strength}`);
+  if (index.expireAfterSeconds != null) {
+    options.push(`TTL candidate (expireAfterSeconds: ${index.expireAfterSeconds})`);
+  }
+  return options.join(", ");
+}
+
+/** Declared SQL type (e.g. numeric(12,2)) with the default expression, if any. */
+function renderColumnType(col: SqlColumn): string {
+  const declared = `<code class="bg-green-950 text-green-400 px-2 py-0.5 rounded border border-green-800 text-sm" title="${escapeHtml(
+    col.type,
+  )}">${escapeHtml(col.rawType ?? col.type)}</code>`;
+  if (!col.defaultExpression) return declared;
+  return `${declared}<div class="text-xs text-green-600 mt-1">default ${escapeHtml(col.defaultExpression)}</div>`;
+}
+
+/** NoSQL field count for a table, or where its rows went if it was folded. */
+function renderFieldCount(analysis: AnalysisResult, tableName: string): string {
+  const folded = analysis.foldedTables?.find((f) => f.table === tableName);
+  if (folded) {
+    return `<span class="text-green-600">folded → ${escapeHtml(
+      folded.into.map((i) => `${i.collection}.${i.field}`).join(", "),
+    )}</span>`;
+  }
+  return String(
+    findCollectionForTable(analysis.nosqlSchema.collections, tableName)?.fields.length ?? 0,
+  );
+}
+
+function renderCardinality(fk: SqlForeignKey): string {
+  return `<span class="bg-green-900/50 text-green-400 px-2 py-0.5 rounded text-xs font-semibold">${fk.cardinality}</span>${
+    fk.cardinalityReason
+      ? `<div class="text-green-600 text-xs mt-1">${escapeHtml(fk.cardinalityReason)}</div>`
+      : ""
+  }${
+    fk.fanOut
+      ? `<div class="text-green-600 text-xs mt-1">children per parent: max ${fk.fanOut.maxChildren}, p95 ${fk.fanOut.p95Children}, avg ${fk.fanOut.avgChildren.toFixed(1)} (${fk.fanOut.parents} parents)</div>`
+      : ""
+  }`;
+}
+
+/** Profiled null ratio, distinct count and width of a column; empty when not profiled. */
+function renderColumnStatistics(col: SqlColumn): string {
+  const stats = col.statistics;
+  if (!stats) return "";
+  const parts = [
+    stats.nullFraction != null ? `${Math.round(stats.nullFraction * 100)}% null` : "",
+    stats.distinctCount != null ? `~${stats.distinctCount} distinct` : "",
+    stats.avgBytes != null ? `~${stats.avgBytes} B` : "",
+  ].filter(Boolean);
+  return parts.length > 0 ? `<div class="text-xs text-green-600 mt-1">${parts.join(" · ")}</div>` : "";
+}
+
+/** Documents that profiled statistics say could grow too large; empty when none. */
+function renderSizeWarnings(warnings: DocumentSizeWarning[] | undefined): string {
+  if (!warnings || warnings.length === 0) return "";
+  return `
+    <h2 class="text-lg font-semibold text-green-400 mt-8 mb-3">Document Size Warnings</h2>
+    <p class="text-green-600 text-sm mb-3">From profiled row widths and children per parent; MongoDB documents are limited to 16MB.</p>
+    <ul class="space-y-2">
+      ${warnings
+        .map(
+          (w) => `<li class="border border-green-800 rounded p-3"><span class="${
+            w.kind === "documentLimit" ? "text-red-400" : "text-green-300"
+          } text-sm font-semibold">${w.kind === "documentLimit" ? "over 16MB" : "unbounded"}</span> ${escapeHtml(w.message)}</li>`,
+        )
+        .join("")}
+    </ul>`;
+}
+
+/** Rows for the members of a sampled JSON field, named by path (settings.theme, tags[].id). */
+function renderSampledFieldRows(
+  shape: { fields?: NoSqlField[]; items?: NoSqlArrayItems },
+  path: string,
+): string {
+  const rows = (shape.fields ?? []).map(
+    (member) => `
+    <tr class="border-b border-green-800/50">
+      <td class="px-4 py-2 pl-8 text-green-300">${escapeHtml(`${path}.${member.name}`)}</td>
+      <td class="px-4 py-2"><code class="bg-green-950 text-green-400 px-2 py-0.5 rounded border border-green-800 text-sm">${escapeHtml(renderFieldType(member))}</code></td>
+      <td class="px-4 py-2">${member.optional ? "✓" : "✗"}</td>
+      <td class="px-4 py-2 text-green-600">${member.type === "unknown" ? "mixed types in samples" : ""}</td>
+    </tr>${renderSampledFieldRows(member, `${path}.${member.name}`)}`,
+  );
+  if (shape.items) rows.push(renderSampledFieldRows(shape.items, `${path}[]`));
+  return rows.join("");
+}
+
+/** JSON paths whose sampled values had more than one type; empty when none. */
+function renderJsonConflicts(conflicts: JsonTypeConflict[] | undefined): string {
+  if (!conflicts || conflicts.length === 0) return "";
+  return `
+    <h2 class="text-lg font-semibold text-green-400 mt-8 mb-3">JSON Type Conflicts</h2>
+    <p class="text-green-600 text-sm mb-3">Paths of sampled json/jsonb columns whose values disagree on their type; they are typed as unknown.</p>
+    <ul class="space-y-2">
+      ${conflicts
+        .map(
+          (c) => `<li class="border border-green-800 rounded p-3"><code class="text-red-400 text-sm">${escapeHtml(c.path)}</code> ${escapeHtml(c.message)}</li>`,
+        )
+        .join("")}
+    </ul>`;
+}
+
+/** What the DDL parser skipped, warnings first; empty when nothing was. */
+function renderDiagnostics(diagnostics: SqlDiagnostic[] | undefined): string {
+  if (!diagnostics || diagnostics.length === 0) return "";
+  const ordered = [
+    ...diagnostics.filter((d) => d.severity === "warning"),
+    ...diagnostics.filter((d) => d.severity !== "warning"),
+  ];
+  const rows = ordered
+    .map(
+      (d) => `
+          <tr class="border-b border-green-800">
+            <td class="px-4 py-2 text-green-600 whitespace-nowrap">${d.line}:${d.column}</td>
+            <td class="px-4 py-2 ${d.severity === "warning" ? "text-red-400" : "text-green-600"}">${d.severity}</td>
+            <td class="px-4 py-2">${escapeHtml(d.message)}${
+              d.excerpt
+                ? `<div class="text-green-600 text-xs mt-1">${escapeHtml(d.excerpt)}</div>`
+                : ""
+            }</td>
+          </tr>`,
+    )
+    .join("");
+  return `
+    <h2 class="text-lg font-semibold text-green-400 mt-8 mb-3">Parser Diagnostics</h2>
+    <p class="text-green-600 text-sm mb-3">Statements and definitions of the DDL file that were skipped (line:column).</p>
+    <div class="border border-green-800 rounded overflow-hidden">
+      <table class="w-full text-sm">
+        <thead>
+          <tr class="bg-green-950 border-b border-green-800">
+            <th class="px-4 py-2 text-left text-green-400 font-semibold">Position</th>
+            <th class="px-4 py-2 text-left text-green-400 font-semibold">Severity</th>
+            <th class="px-4 py-2 text-left text-green-400 font-semibold">Message</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+    </div>`;
+}
+
 export function generateOverviewHTML(analysis: AnalysisResult): string {
   const tables = analysis.sqlSchema.tables;
   const fks = analysis.sqlSchema.foreignKeys;
@@ -49,7 +246,7 @@ export function generateOverviewHTML(analysis: AnalysisResult): string {
       <td class="px-4 py-3">${table.columns.length}</td>
       <td class="px-4 py-3 text-green-300">${table.primaryKey.length > 0 ? table.primaryKey.join(", ") : "—"}</td>
       <td class="px-4 py-3">${fks.filter((fk) => fk.fromTable === table.name).length}</td>
-      <td class="px-4 py-3">${collections.find((c) => c.name === table.name)?.fields.length ?? 0}</td>
+      <td class="px-4 py-3">${renderFieldCount(analysis, table.name)}</td>
     </tr>
   `,
     )
@@ -75,7 +272,7 @@ export function generateOverviewHTML(analysis: AnalysisResult): string {
       ${hasLLM ? `
       <div class="bg-black border border-green-600 rounded p-4">
         <div class="text-2xl font-bold text-green-400">${analysis.llmRecommendations!.embeddings.length}</div>
-        <div class="text-green-600 text-sm mt-1">LLM Recommendations</div>
+        <div class="text-green-600 text-sm mt-1">${recommendationLabel(analysis)} Recommendations</div>
       </div>
       ` : ""}
     </div>
@@ -96,6 +293,9 @@ export function generateOverviewHTML(analysis: AnalysisResult): string {
         </tbody>
       </table>
     </div>
+    ${renderSizeWarnings(analysis.sizeWarnings)}
+    ${renderJsonConflicts(analysis.jsonConflicts)}
+    ${renderDiagnostics(analysis.diagnostics)}
   `;
 
   return layout("SQL → NoSQL Schema Analysis", body);
@@ -120,6 +320,12 @@ export function generateTableHTML(
     reasoning: string;
     tradeoffs?: { pros: string[]; cons: string[] };
   }>,
+  folded?: FoldedTable,
+  engine?: LLMRecommendations["engine"],
+  sqlIndexes: SqlIndex[] = [],
+  indexes: NoSqlIndex[] = [],
+  sizeWarnings: DocumentSizeWarning[] = [],
+  jsonConflicts: JsonTypeConflict[] = [],
 ): string {
   const tableFKs = foreignKeys.filter((fk) => fk.fromTable === table.name);
   const refFKs = foreignKeys.filter((fk) => fk.toTable === table.name);
@@ -128,9 +334,11 @@ export function generateTableHTML(
     .map(
       (col) => `
     <tr class="border-b border-green-800/50">
-      <td class="px-4 py-2 font-semibold">${escapeHtml(col.name)}</td>
-      <td class="px-4 py-2"><code class="bg-green-950 text-green-400 px-2 py-0.5 rounded border border-green-800 text-sm">${escapeHtml(col.type)}</code></td>
-      <td class="px-4 py-2">${col.nullable ? "✓" : "✗"}</td>
+      <td class="px-4 py-2"><span class="font-semibold">${escapeHtml(col.name)}</span>${
+        col.comment ? `<div class="text-xs text-green-600 mt-1">${escapeHtml(col.comment)}</div>` : ""
+      }</td>
+      <td class="px-4 py-2">${renderColumnType(col)}</td>
+      <td class="px-4 py-2">${col.nullable ? "✓" : "✗"}${renderColumnStatistics(col)}</td>
       <td class="px-4 py-2">${col.isPrimaryKey ? "🔑" : ""} ${col.isUnique ? "🔒" : ""}</td>
     </tr>
   `,
@@ -143,15 +351,35 @@ export function generateTableHTML(
         (field) => `
     <tr class="border-b border-green-800/50">
       <td class="px-4 py-2 font-semibold">${escapeHtml(field.name)}</td>
-      <td class="px-4 py-2"><code class="bg-green-950 text-green-400 px-2 py-0.5 rounded border border-green-800 text-sm">${field.type}</code></td>
+      <td class="px-4 py-2"><code class="bg-green-950 text-green-400 px-2 py-0.5 rounded border border-green-800 text-sm">${escapeHtml(renderFieldType(field))}</code>${renderFieldConstraints(field)}</td>
       <td class="px-4 py-2">${field.optional ? "✓" : "✗"}</td>
-      <td class="px-4 py-2 text-green-300">${field.refCollection ? `→ ${escapeHtml(field.refCollection)}` : field.description ?? ""}</td>
-    </tr>
+      <td class="px-4 py-2 text-green-300">${field.refCollection ? `→ ${escapeHtml(field.refCollection)}` : ""}${
+        field.refCollection && field.description ? "<br>" : ""
+      }${escapeHtml(field.description ?? "")}${
+        field.sampledValues != null
+          ? `<div class="text-xs text-green-600 mt-1">structure from ${field.sampledValues} sampled values</div>`
+          : ""
+      }</td>
+    </tr>${field.sampledValues != null ? renderSampledFieldRows(field, field.name) : ""}
   `,
       )
       .join("") ??
     "<tr><td colspan='4' class='px-4 py-2 text-green-600'>No NoSQL collection mapped</td></tr>";
 
+  const indexesHTML = indexes
+    .map(
+      (index) => `
+    <tr class="border-b border-green-800/50">
+      <td class="px-4 py-2"><code class="bg-green-950 text-green-400 px-2 py-0.5 rounded border border-green-800 text-sm">${escapeHtml(
+        `{ ${index.keys.map((k) => `${k.field}: ${k.direction}`).join(", ")} }`,
+      )}</code></td>
+      <td class="px-4 py-2 text-green-300">${escapeHtml(renderIndexOptions(index))}</td>
+      <td class="px-4 py-2 text-green-300">${escapeHtml(index.reason)}</td>
+    </tr>
+  `,
+    )
+    .join("");
+
   const fullJson = escapeHtml(
     JSON.stringify(
       { sqlTable: table, nosqlCollection: collection },
@@ -169,6 +397,21 @@ export function generateTableHTML(
     <div class="grid md:grid-cols-2 gap-6 mb-6">
       <div class="border border-green-800 rounded p-5 bg-black">
         <h2 class="text-lg font-semibold text-green-400 mb-4">SQL Table Structure</h2>
+        ${table.comment ? `
+        <div class="mb-2">
+          <span class="text-green-600 text-sm">Comment</span>
+          <div class="text-green-300">${escapeHtml(table.comment)}</div>
+        </div>
+        ` : ""}
+        ${table.statistics ? `
+        <div class="mb-2">
+          <span class="text-green-600 text-sm">Data</span>
+          <div class="text-green-300">${[
+            table.statistics.rowCount != null ? `~${table.statistics.rowCount} rows` : "",
+            table.statistics.avgRowBytes != null ? `~${table.statistics.avgRowBytes} bytes/row` : "",
+          ].filter(Boolean).join(" · ")}</div>
+        </div>
+        ` : ""}
         <div class="mb-2">
           <span class="text-green-600 text-sm">Primary Key</span>
           <div class="text-green-300">${table.primaryKey.length > 0 ? table.primaryKey.join(", ") : "None"}</div>
@@ -179,6 +422,18 @@ export function generateTableHTML(
           <div class="text-green-300">${table.uniqueConstraints.map((uc) => uc.join(", ")).join("; ")}</div>
         </div>
         ` : ""}
+        ${sqlIndexes.length > 0 ? `
+        <div class="mb-4">
+          <span class="text-green-600 text-sm">Indexes</span>
+          ${sqlIndexes.map((index) => `<div class="text-green-300">${escapeHtml(renderSqlIndex(index))}</div>`).join("")}
+        </div>
+        ` : ""}
+        ${table.partitionKey || table.partitions?.length ? `
+        <div class="mb-4">
+          <span class="text-green-600 text-sm">Partitions${table.partitionKey ? ` (${escapeHtml(table.partitionKey)})` : ""}</span>
+          ${(table.partitions ?? []).map((p) => `<div class="text-green-300">${escapeHtml(p.name)}${p.bound ? ` <span class="text-green-600">${escapeHtml(p.bound)}</span>` : ""}</div>`).join("")}
+        </div>
+        ` : ""}
         <div class="border border-green-800 rounded overflow-hidden mt-4">
           <table class="w-full text-sm">
             <thead><tr class="bg-green-950 border-b border-green-800">
@@ -208,6 +463,23 @@ export function generateTableHTML(
             <tbody>${nosqlFieldsHTML}</tbody>
           </table>
         </div>
+        ${indexes.length > 0 ? `
+        <div class="border border-green-800 rounded overflow-hidden mt-4">
+          <table class="w-full text-sm">
+            <thead><tr class="bg-green-950 border-b border-green-800">
+              <th class="px-3 py-2 text-left text-green-400">Index</th>
+              <th class="px-3 py-2 text-left text-green-400">Options</th>
+              <th class="px-3 py-2 text-left text-green-400">Why</th>
+            </tr></thead>
+            <tbody>${indexesHTML}</tbody>
+          </table>
+        </div>
+        ` : ""}
+        ` : folded ? `
+        <p class="text-green-300">${escapeHtml(folded.reason)}</p>
+        <ul class="list-none pl-0 mt-2 space-y-1">
+          ${folded.into.map((i) => `<li>→ <a href="table-${i.table ?? i.collection}.html" class="text-green-400 hover:text-green-300 underline">${escapeHtml(i.collection)}</a>.<code class="bg-green-950 text-green-400 px-2 py-0.5 rounded border border-green-800 text-sm">${escapeHtml(i.field)}</code></li>`).join("")}
+        </ul>
         ` : "<p class='text-green-600'>No collection mapping available</p>"}
       </div>
     </div>
@@ -223,21 +495,24 @@ export function generateTableHTML(
       ${tableFKs.length > 0 ? `
       <h3 class="text-green-600 text-sm mb-2 mt-4">Outgoing References</h3>
       <ul class="list-none pl-0 space-y-2">
-        ${tableFKs.map((fk) => `<li><code class="bg-green-950 text-green-400 px-2 py-0.5 rounded border border-green-800 text-sm">${escapeHtml(fk.fromColumn)}</code> → <a href="table-${fk.toTable}.html" class="text-green-400 hover:text-green-300 underline">${fk.toTable}.${fk.toColumn}</a></li>`).join("")}
+        ${tableFKs.map((fk) => `<li><code class="bg-green-950 text-green-400 px-2 py-0.5 rounded border border-green-800 text-sm">${escapeHtml(fk.fromColumns.join(", "))}</code> → <a href="table-${fk.toTable}.html" class="text-green-400 hover:text-green-300 underline">${fk.toTable}(${fk.toColumns.join(", ")})</a> ${renderCardinality(fk)}</li>`).join("")}
       </ul>
       ` : ""}
       ${refFKs.length > 0 ? `
       <h3 class="text-green-600 text-sm mb-2 mt-4">Incoming References</h3>
       <ul class="list-none pl-0 space-y-2">
-        ${refFKs.map((fk) => `<li><a href="table-${fk.fromTable}.html" class="text-green-400 hover:text-green-300 underline">${fk.fromTable}.${fk.fromColumn}</a> → <code class="bg-green-950 text-green-400 px-2 py-0.5 rounded border border-green-800 text-sm">${fk.toColumn}</code></li>`).join("")}
+        ${refFKs.map((fk) => `<li><a href="table-${fk.fromTable}.html" class="text-green-400 hover:text-green-300 underline">${fk.fromTable}(${fk.fromColumns.join(", ")})</a> → <code class="bg-green-950 text-green-400 px-2 py-0.5 rounded border border-green-800 text-sm">${fk.toColumns.join(", ")}</code> ${renderCardinality(fk)}</li>`).join("")}
       </ul>
       ` : ""}
     </div>
     ` : ""}
 
+    ${sizeWarnings.length > 0 ? `<div class="mb-6">${renderSizeWarnings(sizeWarnings)}</div>` : ""}
+    ${jsonConflicts.length > 0 ? `<div class="mb-6">${renderJsonConflicts(jsonConflicts)}</div>` : ""}
+
     ${embeddingRecommendations && embeddingRecommendations.length > 0 ? `
     <div class="border border-green-600 rounded p-5 bg-black mb-6">
-      <h2 class="text-lg font-semibold text-green-400 mb-4">🤖 LLM Optimization Recommendations</h2>
+      <h2 class="text-lg font-semibold text-green-400 mb-4">${engine === "rules" ? "📐 Rule-based" : "🤖 LLM"} Optimization Recommendations</h2>
       ${embeddingRecommendations
         .map(
           (rec) => `
@@ -296,7 +571,6 @@ export function generateIndexHTML(analysis: AnalysisResult): string {
 
   const tableCards = tables
     .map((table) => {
-      const collection = collections.find((c) => c.name === table.name);
       const tableFKs = fks.filter((fk) => fk.fromTable === table.name);
       return `
     <div class="border border-green-800 rounded overflow-hidden bg-black hover:border-green-600 transition-colors">
@@ -306,12 +580,13 @@ export function generateIndexHTML(analysis: AnalysisResult): string {
       </div>
       <div class="p-5 space-y-2 text-sm">
         <div class="flex justify-between"><span class="text-green-600">SQL Columns</span><span class="text-green-300 font-semibold">${table.columns.length}</span></div>
-        <div class="flex justify-between"><span class="text-green-600">NoSQL Fields</span><span class="text-green-300 font-semibold">${collection?.fields.length ?? 0}</span></div>
+        <div class="flex justify-between"><span class="text-green-600">NoSQL Fields</span><span class="text-green-300 font-semibold">${renderFieldCount(analysis, table.name)}</span></div>
         <div class="flex justify-between"><span class="text-green-600">Foreign Keys</span><span class="text-green-300 font-semibold">${tableFKs.length}</span></div>
         ${table.primaryKey.length > 0 ? `<div class="flex justify-between"><span class="text-green-600">Primary Key</span><span class="text-green-300"><code class="bg-green-950 px-2 py-0.5 rounded border border-green-800 text-xs">${table.primaryKey.join(", ")}</code></span></div>` : ""}
         ${hasLLM ? (() => {
-          const tableRecs = analysis.llmRecommendations!.embeddings.filter((r) => r.collection === table.name);
-          return tableRecs.length > 0 ? `<div class="flex justify-between"><span class="text-green-600">LLM Recommendations</span><span class="text-green-400 font-semibold">${tableRecs.length}</span></div>` : "";
+          const collectionName = findCollectionForTable(collections, table.name)?.name ?? table.name;
+          const tableRecs = analysis.llmRecommendations!.embeddings.filter((r) => r.collection === collectionName);
+          return tableRecs.length > 0 ? `<div class="flex justify-between"><span class="text-green-600">${recommendationLabel(analysis)} Recommendations</span><span class="text-green-400 font-semibold">${tableRecs.length}</span></div>` : "";
         })() : ""}
       </div>
       <div class="px-5 py-3 border-t border-green-800 bg-black">
@@ -346,8 +621,8 @@ export function generateIndexHTML(analysis: AnalysisResult): string {
         </div>
         ${hasLLM ? `
         <div class="border border-green-600 rounded p-5 bg-black text-center">
-          <div class="text-3xl font-bold text-green-400">🤖</div>
-          <div class="text-green-600 text-sm mt-1 uppercase tracking-wider">AI Optimized</div>
+          <div class="text-3xl font-bold text-green-400">${analysis.llmRecommendations?.engine === "rules" ? "📐" : "🤖"}</div>
+          <div class="text-green-600 text-sm mt-1 uppercase tracking-wider">${analysis.llmRecommendations?.engine === "rules" ? "Rule Optimized" : "AI Optimized"}</div>
         </div>
         ` : ""}
       </div>
@@ -355,7 +630,7 @@ export function generateIndexHTML(analysis: AnalysisResult): string {
       <div class="flex flex-wrap gap-3 justify-center mb-8">
         <a href="schema-analysis.html" class="bg-green-950 border border-green-600 text-green-400 px-5 py-2.5 rounded font-semibold hover:bg-green-900/50 hover:border-green-500 transition-colors">📊 Full Overview</a>
         <a href="schema-analysis.json" class="bg-green-950 border border-green-600 text-green-400 px-5 py-2.5 rounded font-semibold hover:bg-green-900/50 hover:border-green-500 transition-colors" download>📥 Download JSON</a>
-        ${hasLLM ? `<span class="bg-green-950/50 border border-green-600 text-green-400 px-5 py-2.5 rounded font-semibold">🤖 LLM Recommendations Enabled</span>` : ""}
+        ${hasLLM ? `<span class="bg-green-950/50 border border-green-600 text-green-400 px-5 py-2.5 rounded font-semibold">${analysis.llmRecommendations?.engine === "rules" ? "📐" : "🤖"} ${recommendationLabel(analysis)} Recommendations Enabled</span>` : ""}
       </div>
     </div>
 
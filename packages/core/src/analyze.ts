@@ -1,16 +1,27 @@
-import type { AnalysisResult } from "./model";
-import { parseSqlSchema } from "./sqlParser";
+import type { AnalysisResult, NoSqlMappingOptions } from "./model";
+import { parseSqlSchemaWithDiagnostics, type ParseSqlOptions } from "./sqlParser";
 import { buildAnalysisResult } from "./nosqlMapping";
 
+export interface AnalyzeSqlOptions extends ParseSqlOptions, NoSqlMappingOptions {}
+
 /**
  * End-to-end SQL → NoSQL analysis entrypoint.
  *
  * Deterministic, rule-based, and side-effect free:
- * - Parses a subset of Postgres DDL into SqlSchema.
+ * - Parses a subset of DDL (Postgres by default, see options.dialect) into SqlSchema.
  * - Maps SqlSchema into a NoSqlSchema using simple rules.
+ * - Lists what the parser skipped, with line and column, as diagnostics.
  */
-export function analyzeSqlToNoSql(sql: string): AnalysisResult {
-  const sqlSchema = parseSqlSchema(sql);
-  return buildAnalysisResult(sqlSchema);
+export function analyzeSqlToNoSql(
+  sql: string,
+  options: AnalyzeSqlOptions = {},
+): AnalysisResult {
+  const { sqlSchema, diagnostics } = parseSqlSchemaWithDiagnostics(sql, {
+    dialect: options.dialect,
+  });
+  return {
+    ...buildAnalysisResult(sqlSchema, options),
+    ...(diagnostics.length > 0 ? { diagnostics } : {}),
+  };
 }
 
@@ -0,0 +1,124 @@
+import type { SqlForeignKey, SqlSchema, SqlTable } from "./model";
+
+/**
+ * Maximum number of non-key columns a table may carry and still be treated
+ * as a pure junction table (e.g. created_at, position).
+ */
+const JUNCTION_MAX_EXTRA_COLUMNS = 2;
+
+export interface JunctionTable {
+  table: string;
+  /** The two FKs that together form the junction table's key. */
+  foreignKeys: [SqlForeignKey, SqlForeignKey];
+  /** Columns that are not part of either FK. */
+  extraColumns: string[];
+}
+
+/**
+ * Find pure many-to-many junction tables: exactly two FKs whose columns
+ * together form the primary key (or a unique key when there is no PK), with
+ * at most a couple of other columns.
+ */
+export function detectJunctionTables(sqlSchema: SqlSchema): JunctionTable[] {
+  const junctions: JunctionTable[] = [];
+
+  for (const table of sqlSchema.tables) {
+    const tableFks = sqlSchema.foreignKeys.filter((fk) => fk.fromTable === table.name);
+    if (tableFks.length !== 2) continue;
+
+    const fkColumns = new Set(tableFks.flatMap((fk) => fk.fromColumns));
+    const keys = table.primaryKey.length > 0 ? [table.primaryKey] : table.uniqueConstraints;
+    const keyedByFks = keys.some((key) => sameColumnSet(key, fkColumns));
+    if (!keyedByFks) continue;
+
+    const extraColumns = table.columns
+      .map((c) => c.name)
+      .filter((name) => !fkColumns.has(name));
+    if (extraColumns.length > JUNCTION_MAX_EXTRA_COLUMNS) continue;
+
+    junctions.push({
+      table: table.name,
+      foreignKeys: [tableFks[0], tableFks[1]],
+      extraColumns,
+    });
+  }
+
+  return junctions;
+}
+
+/**
+ * Set the cardinality of every FK from the schema's keys, recording the reason:
+ * - FKs of a pure junction table → many-to-many
+ * - FK columns covered by the PK or a unique constraint → one-to-one
+ * - otherwise → one-to-many
+ *
+ * Returns a new schema; the input is not modified.
+ */
+export function inferCardinality(sqlSchema: SqlSchema): SqlSchema {
+  const junctionByFk = new Map<SqlForeignKey, JunctionTable>();
+  for (const junction of detectJunctionTables(sqlSchema)) {
+    for (const fk of junction.foreignKeys) {
+      junctionByFk.set(fk, junction);
+    }
+  }
+
+  const foreignKeys = sqlSchema.foreignKeys.map<SqlForeignKey>((fk) => {
+    const columns = `${fk.fromTable}(${fk.fromColumns.join(", ")})`;
+
+    const junction = junctionByFk.get(fk);
+    if (junction) {
+      const [a, b] = junction.foreignKeys;
+      return {
+        ...fk,
+        cardinality: "many-to-many",
+        cardinalityReason: `${fk.fromTable} is a junction table: its key is formed by FKs to ${a.toTable} and ${b.toTable}${
+          junction.extraColumns.length > 0
+            ? ` plus ${junction.extraColumns.length} other column(s)`
+            : " with no other columns"
+        }.`,
+      };
+    }
+
+    const table = sqlSchema.tables.find((t) => t.name === fk.fromTable);
+    const uniqueKey = table ? findCoveringKey(table, fk.fromColumns) : undefined;
+    if (uniqueKey) {
+      return {
+        ...fk,
+        cardinality: "one-to-one",
+        cardinalityReason: `${columns} is ${uniqueKey}, so each ${fk.toTable} row is referenced at most once.`,
+      };
+    }
+
+    return {
+      ...fk,
+      cardinality: "one-to-many",
+      cardinalityReason: `${columns} is not unique, so many ${fk.fromTable} rows can reference one ${fk.toTable} row.`,
+    };
+  });
+
+  return { ...sqlSchema, foreignKeys };
+}
+
+/**
+ * Describe the key that makes the given columns unique, if any. Only exact
+ * matches count: a composite PK (a, b) does not make a alone unique.
+ */
+function findCoveringKey(table: SqlTable, columns: string[]): string | undefined {
+  const columnSet = new Set(columns);
+  if (table.primaryKey.length > 0 && sameColumnSet(table.primaryKey, columnSet)) {
+    return "the primary key";
+  }
+  if (table.uniqueConstraints.some((uc) => sameColumnSet(uc, columnSet))) {
+    return "unique";
+  }
+  if (columns.length === 1) {
+    const column = table.columns.find((c) => c.name === columns[0]);
+    if (column?.isPrimaryKey && table.primaryKey.length <= 1) return "the primary key";
+    if (column?.isUnique) return "unique";
+  }
+  return undefined;
+}
+
+function sameColumnSet(columns: string[], set: Set<string>): boolean {
+  return columns.length === set.size && columns.every((c) => set.has(c));
+}
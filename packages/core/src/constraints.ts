@@ -0,0 +1,334 @@
+import type {
+  NoSqlCollection,
+  NoSqlFieldConstraints,
+  SqlCheckConstraint,
+  SqlColumn,
+} from "./model";
+
+// Deterministic reading of CHECK constraints. Only rules on a single column
+// are broken down; they cover what schemas use for validation in practice:
+// - col IN ('a', 'b') / col = ANY (ARRAY['a', 'b'])   (Postgres' stored form)
+// - col = 'a' OR col = 'b'                             (SQL Server's stored form)
+// - col >= 0, 0 < col, col BETWEEN 1 AND 5
+// - AND-combinations of the above on the same column
+// Casts (::text, ::numeric), MySQL charset introducers (_utf8mb4'a') and
+// redundant parentheses are ignored.
+
+/** One quoted or bare identifier, as in the DDL parser. */
+const COLUMN = '(?:"[^"]+"|`[^`]+`|\\[[^\\]]+\\]|[A-Za-z_][\\w$]*)';
+const NUMBER = "-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?";
+const STRING = "N?'(?:[^']|'')*'";
+const VALUE = `(?:${STRING}|${NUMBER})`;
+
+/** MySQL's stored CHECK_CLAUSE prefixes literals with their character set. */
+const CHARSET_INTRODUCER = /\b_[A-Za-z0-9]+(?=')/g;
+
+/** `::type`, including multi-word types, typmods and array brackets. */
+const CAST =
+  /::\s*(?:"[^"]+"|[A-Za-z_][\w.]*)(?:\s+(?:varying|precision|with(?:out)?\s+time\s+zone))?(?:\s*\(\s*\d+(?:\s*,\s*\d+)?\s*\))?(?:\s*\[\s*\])*/g;
+
+type ComparisonOp = ">=" | ">" | "<=" | "<" | "=";
+
+/**
+ * Build a SqlCheckConstraint from the expression inside CHECK (...),
+ * breaking it down into column, allowed values and range when it is simple.
+ */
+export function parseCheckConstraint(
+  table: string,
+  expression: string,
+  name?: string,
+): SqlCheckConstraint {
+  const check: SqlCheckConstraint = {
+    ...(name ? { name } : {}),
+    table,
+    expression: expression.trim(),
+  };
+  const rule = parseSimpleRule(expression);
+  return rule ? { ...check, ...rule } : check;
+}
+
+/**
+ * Field constraints for a column: its enum labels plus whatever simple CHECK
+ * rules apply to it. Undefined when nothing constrains the column.
+ */
+export function columnConstraints(
+  table: string,
+  col: SqlColumn,
+  checks: SqlCheckConstraint[] = [],
+): NoSqlFieldConstraints | undefined {
+  const constraints: NoSqlFieldConstraints = {};
+  if (col.type === "enum" && col.enumValues) {
+    constraints.allowedValues = [...col.enumValues];
+  }
+
+  for (const check of checks) {
+    if (check.table !== table || check.column !== col.name) continue;
+    mergeRule(constraints, check);
+  }
+
+  return Object.keys(constraints).length > 0 ? constraints : undefined;
+}
+
+/**
+ * A MongoDB `$jsonSchema` validator enforcing the constraints of a
+ * collection's top-level fields, or undefined when no field has any.
+ * Optional fields also accept null, as their SQL columns did.
+ */
+export function buildJsonSchemaValidator(
+  collection: NoSqlCollection,
+): { $jsonSchema: Record<string, unknown> } | undefined {
+  const properties: Record<string, Record<string, unknown>> = {};
+
+  for (const field of collection.fields) {
+    const c = field.constraints;
+    if (!c) continue;
+    const property: Record<string, unknown> = {};
+    if (c.allowedValues) {
+      property.enum = field.optional ? [...c.allowedValues, null] : c.allowedValues;
+    }
+    if (c.minimum != null) {
+      property.minimum = c.minimum;
+      if (c.exclusiveMinimum) property.exclusiveMinimum = true;
+    }
+    if (c.maximum != null) {
+      property.maximum = c.maximum;
+      if (c.exclusiveMaximum) property.exclusiveMaximum = true;
+    }
+    if (Object.keys(property).length > 0) properties[field.name] = property;
+  }
+
+  if (Object.keys(properties).length === 0) return undefined;
+  return { $jsonSchema: { bsonType: "object", properties } };
+}
+
+function mergeRule(target: NoSqlFieldConstraints, rule: NoSqlFieldConstraints): void {
+  if (rule.allowedValues) {
+    // Both an enum and a CHECK IN apply: only values in both are valid.
+    target.allowedValues = target.allowedValues
+      ? target.allowedValues.filter((v) => rule.allowedValues!.includes(v))
+      : [...rule.allowedValues];
+  }
+  if (
+    rule.minimum != null &&
+    (target.minimum == null ||
+      rule.minimum > target.minimum ||
+      (rule.minimum === target.minimum && rule.exclusiveMinimum))
+  ) {
+    target.minimum = rule.minimum;
+    if (rule.exclusiveMinimum) target.exclusiveMinimum = true;
+    else delete target.exclusiveMinimum;
+  }
+  if (
+    rule.maximum != null &&
+    (target.maximum == null ||
+      rule.maximum < target.maximum ||
+      (rule.maximum === target.maximum && rule.exclusiveMaximum))
+  ) {
+    target.maximum = rule.maximum;
+    if (rule.exclusiveMaximum) target.exclusiveMaximum = true;
+    else delete target.exclusiveMaximum;
+  }
+}
+
+type SimpleRule = NoSqlFieldConstraints & { column: string };
+
+/**
+ * The AND-ed parts of a boolean expression, normalized: casts and charset
+ * introducers dropped, BETWEEN expanded, redundant parentheses removed.
+ * Also used for partial index predicates (see indexes.ts).
+ */
+export function splitConjuncts(expression: string): string[] {
+  const normalized = unwrapOperands(
+    expression.replace(CAST, "").replace(CHARSET_INTRODUCER, ""),
+  );
+  const expanded = normalized.replace(
+    new RegExp(`(${COLUMN})\\s+BETWEEN\\s+(${VALUE})\\s+AND\\s+(${VALUE})`, "gi"),
+    "$1 >= $2 AND $1 <= $3",
+  );
+  return splitTopLevel(stripOuterParens(expanded), "AND").map(stripOuterParens);
+}
+
+function parseSimpleRule(expression: string): SimpleRule | null {
+  let result: SimpleRule | null = null;
+  for (const conjunct of splitConjuncts(expression)) {
+    const rule = parseConjunct(conjunct);
+    if (!rule || (result && result.column !== rule.column)) return null;
+    if (!result) {
+      result = { column: rule.column };
+    }
+    mergeRule(result, rule);
+  }
+  return result;
+}
+
+function parseConjunct(text: string): SimpleRule | null {
+  const inList = new RegExp(`^(${COLUMN})\\s+IN\\s*\\(([\\s\\S]*)\\)$`, "i").exec(text);
+  if (inList) return allowedValuesRule(inList[1], inList[2]);
+
+  const anyArray = new RegExp(
+    `^(${COLUMN})\\s*=\\s*ANY\\s*\\(+\\s*ARRAY\\s*\\[([\\s\\S]*)\\]\\s*\\)+$`,
+    "i",
+  ).exec(text);
+  if (anyArray) return allowedValuesRule(anyArray[1], anyArray[2]);
+
+  const alternatives = splitTopLevel(text, "OR");
+  if (alternatives.length > 1) {
+    const rules = alternatives.map((alt) => parseComparison(stripOuterParens(alt)));
+    const column = rules[0]?.column;
+    if (
+      !column ||
+      rules.some((r) => !r || r.column !== column || !r.allowedValues)
+    ) {
+      return null;
+    }
+    return {
+      column,
+      allowedValues: rules.flatMap((r) => r!.allowedValues!),
+    };
+  }
+
+  return parseComparison(text);
+}
+
+function parseComparison(text: string): SimpleRule | null {
+  const op = "(>=|<=|>|<|=)";
+  const columnFirst = new RegExp(`^(${COLUMN})\\s*${op}\\s*(${VALUE})$`).exec(text);
+  const valueFirst = new RegExp(`^(${VALUE})\\s*${op}\\s*(${COLUMN})$`).exec(text);
+
+  let column: string;
+  let operator: ComparisonOp;
+  let rawValue: string;
+  if (columnFirst) {
+    column = columnFirst[1];
+    operator = columnFirst[2] as ComparisonOp;
+    rawValue = columnFirst[3];
+  } else if (valueFirst) {
+    // "0 < price" reads as "price > 0".
+    rawValue = valueFirst[1];
+    operator = flip(valueFirst[2] as ComparisonOp);
+    column = valueFirst[3];
+  } else {
+    return null;
+  }
+  if (/^(?:AND|OR|NOT|NULL|TRUE|FALSE)$/i.test(column)) return null;
+
+  const value = parseValue(rawValue);
+  if (value === undefined) return null;
+  const name = unquote(column);
+
+  if (operator === "=") return { column: name, allowedValues: [value] };
+  if (typeof value !== "number") return null;
+  switch (operator) {
+    case ">=":
+      return { column: name, minimum: value };
+    case ">":
+      return { column: name, minimum: value, exclusiveMinimum: true };
+    case "<=":
+      return { column: name, maximum: value };
+    case "<":
+      return { column: name, maximum: value, exclusiveMaximum: true };
+  }
+}
+
+function allowedValuesRule(column: string, list: string): SimpleRule | null {
+  const values = splitTopLevel(list, ",").map((v) => parseValue(v));
+  if (values.length === 0 || values.some((v) => v === undefined)) return null;
+  return { column: unquote(column), allowedValues: values as Array<string | number> };
+}
+
+function flip(op: ComparisonOp): ComparisonOp {
+  switch (op) {
+    case ">=":
+      return "<=";
+    case ">":
+      return "<";
+    case "<=":
+      return ">=";
+    case "<":
+      return ">";
+    default:
+      return op;
+  }
+}
+
+function parseValue(text: string): string | number | undefined {
+  const v = stripOuterParens(text.trim());
+  const str = /^N?'((?:[^']|'')*)'$/.exec(v);
+  if (str) return str[1].replace(/''/g, "'");
+  if (new RegExp(`^${NUMBER}$`).test(v)) return Number(v);
+  return undefined;
+}
+
+function unquote(identifier: string): string {
+  return identifier.replace(/^["`[]|["`\]]$/g, "");
+}
+
+/** Drop parentheses around single identifiers and numbers: "(price) >= (0)" → "price >= 0". */
+function unwrapOperands(text: string): string {
+  const operand = new RegExp(`([\\w$]+\\s*)?\\(\\s*(${COLUMN}|${NUMBER})\\s*\\)`, "g");
+  let previous: string;
+  let current = text;
+  do {
+    previous = current;
+    current = current.replace(operand, (match, word: string | undefined, inner: string) => {
+      // Keep call arguments, length(name), and IN / ANY lists as they are.
+      if (word && !/^(?:AND|OR|NOT)\s*$/i.test(word)) return match;
+      return `${word ?? ""}${inner}`;
+    });
+  } while (current !== previous);
+  return current;
+}
+
+/** Remove parentheses that enclose the whole expression, however many. */
+function stripOuterParens(text: string): string {
+  let t = text.trim();
+  while (t.startsWith("(") && closingParen(t, 0) === t.length - 1) {
+    t = t.slice(1, -1).trim();
+  }
+  return t;
+}
+
+function closingParen(text: string, open: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'") inString = !inString;
+    if (inString) continue;
+    if (ch === "(") depth++;
+    if (ch === ")" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Split on a keyword (AND / OR) or comma outside parentheses, brackets and strings. */
+function splitTopLevel(text: string, separator: "AND" | "OR" | ","): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inString = false;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'") inString = !inString;
+    if (inString) continue;
+    if (ch === "(" || ch === "[") depth++;
+    if (ch === ")" || ch === "]") depth--;
+    if (depth !== 0) continue;
+
+    if (separator === ",") {
+      if (ch === ",") {
+        parts.push(text.slice(start, i));
+        start = i + 1;
+      }
+      continue;
+    }
+    const keyword = new RegExp(`^\\s${separator}\\s`, "i").exec(text.slice(i));
+    if (keyword) {
+      parts.push(text.slice(start, i));
+      start = i + keyword[0].length;
+      i = start - 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
@@ -0,0 +1,139 @@
+import type {
+  DocumentSizeWarning,
+  NoSqlCollection,
+  NoSqlField,
+  NoSqlSchema,
+  SqlForeignKey,
+  SqlSchema,
+  SqlTable,
+} from "./model";
+import { collectionNamesForTables, collectionTable } from "./tableNames";
+
+/** MongoDB's maximum BSON document size. */
+export const MAX_DOCUMENT_BYTES = 16 * 1024 * 1024;
+
+/** More children than this under one parent makes a relation unbounded for embedding. */
+export const UNBOUNDED_FAN_OUT = 1000;
+
+/** BSON spends a type byte and a NUL-terminated key on every field. */
+const FIELD_OVERHEAD_BYTES = 2;
+
+/**
+ * Flag documents that profiled statistics say could grow too large:
+ * - every array field gathering child rows (folded junction tables, child
+ *   arrays) is sized as the parent row plus its largest set of children,
+ *   capped by the array's limit, and reported when that exceeds 16MB;
+ * - one-to-many relations whose largest parent has more than
+ *   UNBOUNDED_FAN_OUT children are reported as unbounded, unless an
+ *   embedding of them is capped by a limit.
+ *
+ * Relations without SqlForeignKey.fanOut are skipped; without a profile
+ * the result is empty.
+ */
+export function checkDocumentSizes(
+  sqlSchema: SqlSchema,
+  nosqlSchema: NoSqlSchema,
+): DocumentSizeWarning[] {
+  const warnings: DocumentSizeWarning[] = [];
+  const names = collectionNamesForTables(sqlSchema.tables);
+
+  for (const fk of sqlSchema.foreignKeys) {
+    const fanOut = fk.fanOut;
+    if (!fanOut || fk.cardinality === "one-to-one" || fk.fromTable === fk.toTable) continue;
+
+    const collectionName = names.get(fk.toTable) ?? fk.toTable;
+    const parent = nosqlSchema.collections.find((c) => c.name === collectionName);
+    const arrays = parent ? embeddedArrays(parent, fk) : [];
+    const counts = { maxChildren: fanOut.maxChildren, p95Children: fanOut.p95Children };
+    const unbounded = fanOut.maxChildren > UNBOUNDED_FAN_OUT;
+
+    if (arrays.length === 0) {
+      if (unbounded) {
+        warnings.push({
+          kind: "unbounded",
+          collection: collectionName,
+          childTable: fk.fromTable,
+          ...counts,
+          message: `One ${fk.toTable} row has up to ${fanOut.maxChildren} ${fk.fromTable} rows (p95 ${fanOut.p95Children}); keep them as references rather than embedding.`,
+        });
+      }
+      continue;
+    }
+
+    const parentTable = sqlSchema.tables.find((t) => t.name === collectionTable(parent!));
+    const childTable = sqlSchema.tables.find((t) => t.name === fk.fromTable);
+    for (const field of arrays) {
+      const limit = field.source?.limit;
+      const embedded = limit != null ? Math.min(limit, fanOut.maxChildren) : fanOut.maxChildren;
+      const elementBytes = childTable ? estimateRowBytes(childTable, field.source?.columns) : undefined;
+      const estimatedBytes =
+        elementBytes != null
+          ? (parentTable ? estimateRowBytes(parentTable) ?? 0 : 0) + embedded * elementBytes
+          : undefined;
+
+      if (estimatedBytes != null && estimatedBytes > MAX_DOCUMENT_BYTES) {
+        warnings.push({
+          kind: "documentLimit",
+          collection: collectionName,
+          field: field.name,
+          childTable: fk.fromTable,
+          ...counts,
+          estimatedBytes,
+          message: `${collectionName}.${field.name} embeds up to ${embedded} ${fk.fromTable} rows of about ${elementBytes} bytes; the largest document would be about ${formatBytes(estimatedBytes)}, over MongoDB's 16MB limit.`,
+        });
+      } else if (unbounded && limit == null) {
+        warnings.push({
+          kind: "unbounded",
+          collection: collectionName,
+          field: field.name,
+          childTable: fk.fromTable,
+          ...counts,
+          ...(estimatedBytes != null ? { estimatedBytes } : {}),
+          message: `${collectionName}.${field.name} embeds every ${fk.fromTable} row of its parent: up to ${fanOut.maxChildren} (p95 ${fanOut.p95Children}). Cap it (subset) or keep references.`,
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Average bytes of a row of `table` (or of the given columns only), from
+ * column statistics when available, else the table's average row width.
+ * Undefined when the table was not profiled.
+ */
+export function estimateRowBytes(table: SqlTable, columns?: string[]): number | undefined {
+  const selected = columns
+    ? table.columns.filter((c) => columns.includes(c.name))
+    : table.columns;
+  if (selected.length > 0 && selected.every((c) => c.statistics?.avgBytes != null)) {
+    return Math.round(
+      selected.reduce(
+        (sum, c) =>
+          sum +
+          c.name.length +
+          FIELD_OVERHEAD_BYTES +
+          c.statistics!.avgBytes! * (1 - (c.statistics!.nullFraction ?? 0)),
+        0,
+      ),
+    );
+  }
+  return table.statistics?.avgRowBytes;
+}
+
+/** Array fields of `collection` filled from the child rows of `fk`. */
+function embeddedArrays(collection: NoSqlCollection, fk: SqlForeignKey): NoSqlField[] {
+  return collection.fields.filter(
+    (field) =>
+      field.type === "array" &&
+      field.source?.table === fk.fromTable &&
+      field.source.joinColumns.join(",") === fk.fromColumns.join(","),
+  );
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)}MB`
+    : `${Math.ceil(bytes / 1024)}KB`;
+}
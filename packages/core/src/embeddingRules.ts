@@ -0,0 +1,242 @@
+import type {
+  AnalysisResult,
+  EmbeddingRecommendation,
+  LLMRecommendations,
+  NoSqlMappingOptions,
+  SqlColumn,
+  SqlForeignKey,
+  SqlSchema,
+  SqlTable,
+} from "./model";
+import { estimateRowBytes, MAX_DOCUMENT_BYTES, UNBOUNDED_FAN_OUT } from "./documentSizes";
+import { detectSubtypeTables } from "./inheritance";
+import { buildChildArrayField } from "./nosqlMapping";
+import { detectTimeSeries } from "./timeSeries";
+import { collectionNamesForTables } from "./tableNames";
+
+/** Tables with at most this many columns and a label column count as lookup tables. */
+const LOOKUP_MAX_COLUMNS = 4;
+
+/** Tables wider than this are never embedded in full. */
+const WIDE_TABLE_COLUMNS = 12;
+
+/** Combined text/json weight above which a table is too heavy to copy into other documents. */
+const HEAVY_TABLE_WEIGHT = 3;
+
+/** Columns worth denormalizing: short, human-readable, rarely updated. */
+const LABEL_COLUMN_PATTERN = /(^|_)(name|title|code|label|slug)$/i;
+
+/**
+ * Offline, deterministic alternative to the LLM provider: derive one
+ * EmbeddingRecommendation per foreign key from the schema alone.
+ *
+ * Rules, in order:
+ * - self-reference → reference (embedding would recurse; see mapping.treePattern)
+ * - junction table FK (many-to-many) → reference (see mapping.junctionTables)
+ * - table-per-type subtype key → full (see mapping.inheritance)
+ * - heavy referenced table (wide, or several text/json columns) → reference
+ * - one-to-one → full
+ * - lookup table (few columns with a name/title/code column) → partial
+ * - one-to-many with a label column → hybrid (reference + label)
+ * - otherwise → reference
+ *
+ * In addition, a child table named after its parent (invoice_line under
+ * invoice) that nothing else references gets an "array" recommendation on
+ * the parent side, unless profiled fan-out shows parents with more than
+ * UNBOUNDED_FAN_OUT children or children that would not fit in 16MB, or
+ * the child looks like an append-only time series (see mapping.timeSeries).
+ *
+ * `options` and the `mapped` result are those of the mapping the
+ * recommendations apply to: tables it folded into other collections
+ * (junction tables, merged subtypes) get none, and advice to set a
+ * mapping option is left out once it is set.
+ *
+ * Expects cardinality to be inferred already (see buildAnalysisResult).
+ */
+export function recommendEmbeddings(
+  sqlSchema: SqlSchema,
+  options: NoSqlMappingOptions = {},
+  mapped: Pick<AnalysisResult, "foldedTables" | "timeSeries"> = {},
+): LLMRecommendations {
+  const embeddings: EmbeddingRecommendation[] = [];
+  const warnings: string[] = [];
+  const names = collectionNamesForTables(sqlSchema.tables);
+  const timeSeries = new Set(detectTimeSeries(sqlSchema).map((c) => c.table.name));
+  const subtypes = new Set(detectSubtypeTables(sqlSchema).map((s) => s.foreignKey));
+  const folded = new Set((mapped.foldedTables ?? []).map((f) => f.table));
+  const buckets = new Set(
+    (mapped.timeSeries ?? []).filter((t) => t.pattern === "buckets").map((t) => t.table),
+  );
+
+  for (const fk of sqlSchema.foreignKeys) {
+    // Folded tables have no collection to embed in or to be embedded from.
+    if (folded.has(fk.fromTable) || folded.has(fk.toTable)) continue;
+    const target = sqlSchema.tables.find((t) => t.name === fk.toTable);
+    if (!target) {
+      warnings.push(
+        `${fk.fromTable}.${fk.fromColumn} references ${fk.toTable}, which is not part of the analyzed schema.`,
+      );
+      continue;
+    }
+    const recommendation: EmbeddingRecommendation = subtypes.has(fk)
+      ? {
+          collection: names.get(fk.fromTable) ?? fk.fromTable,
+          field: fk.fromColumn,
+          strategy: "full",
+          reason: `${fk.fromTable} is a subtype of ${fk.toTable} (its key is ${fk.toTable}'s key); embedding the ${fk.toTable} row completes each ${fk.fromTable}.${
+            options.inheritance ? "" : ` Set mapping.inheritance to "singleCollection" to keep all of them in one collection instead.`
+          }`,
+          confidence: 0.6,
+        }
+      : recommendForForeignKey(fk, target, names.get(fk.fromTable) ?? fk.fromTable, options);
+    // Bucket documents are built from the rows they hold, not from a row.
+    if (buckets.has(fk.fromTable) && recommendation.strategy !== "reference") {
+      warnings.push(
+        `${fk.fromTable} is stored in buckets; their documents hold its rows as items, so ${fk.toTable} is not embedded in them.`,
+      );
+    } else {
+      embeddings.push(recommendation);
+    }
+
+    const owned = recommendOwnedChildArray(fk, sqlSchema, names.get(fk.toTable) ?? fk.toTable);
+    if (owned && timeSeries.has(fk.fromTable)) {
+      warnings.push(
+        `${fk.fromTable} looks like an append-only time series of ${fk.toTable}; not embedded as an array (see mapping.timeSeries).`,
+      );
+    } else if (owned && fk.fanOut && !fitsInDocument(fk, sqlSchema)) {
+      warnings.push(
+        `${fk.fromTable} looks owned by ${fk.toTable}, but one ${fk.toTable} has up to ${fk.fanOut.maxChildren} of them (p95 ${fk.fanOut.p95Children}); not embedded as an array.`,
+      );
+    } else if (owned) {
+      embeddings.push(owned);
+    }
+  }
+
+  return { embeddings, insights: [], warnings, engine: "rules" };
+}
+
+function recommendForForeignKey(
+  fk: SqlForeignKey,
+  target: SqlTable,
+  collection: string,
+  options: NoSqlMappingOptions,
+): EmbeddingRecommendation {
+  const base = { collection, field: fk.fromColumn };
+  const labels = labelColumns(target);
+  const weight = textWeight(target);
+
+  if (fk.toTable === fk.fromTable) {
+    return {
+      ...base,
+      strategy: "reference",
+      reason: `${fk.fromColumn} points back into ${fk.toTable}; embedding a self-reference would nest without bound.${
+        options.treePattern ? "" : " For subtree queries, mapping.treePattern adds an ancestors array or materialized path."
+      }`,
+      confidence: 0.9,
+    };
+  }
+
+  if (fk.cardinality === "many-to-many") {
+    return {
+      ...base,
+      strategy: "reference",
+      reason: options.junctionTables
+        ? `${fk.fromTable} is a junction table; it references ${fk.toTable} rather than embedding it.`
+        : `${fk.fromTable} is a junction table; fold it into arrays (mapping.junctionTables) rather than embedding ${fk.toTable}.`,
+      confidence: 0.7,
+    };
+  }
+
+  if (target.columns.length > WIDE_TABLE_COLUMNS || weight >= HEAVY_TABLE_WEIGHT) {
+    return {
+      ...base,
+      strategy: labels.length > 0 ? "hybrid" : "reference",
+      reason: `${fk.toTable} is heavy (${target.columns.length} columns, text/json weight ${weight}); copying it into every ${fk.fromTable} document would bloat them${
+        labels.length > 0 ? `, so only ${labels.join(", ")} is denormalized` : ""
+      }.`,
+      ...(labels.length > 0 ? { suggestedFields: labels } : {}),
+      confidence: 0.7,
+    };
+  }
+
+  if (fk.cardinality === "one-to-one") {
+    return {
+      ...base,
+      strategy: "full",
+      reason: `${fk.fromTable} and ${fk.toTable} are one-to-one and ${fk.toTable} is small (${target.columns.length} columns); embedding it saves a lookup without duplication.`,
+      confidence: 0.7,
+    };
+  }
+
+  if (labels.length > 0 && target.columns.length <= LOOKUP_MAX_COLUMNS) {
+    return {
+      ...base,
+      strategy: "partial",
+      reason: `${fk.toTable} looks like a lookup table (${target.columns.length} columns with ${labels.join(", ")}); its label rarely changes and is read with ${fk.fromTable}.`,
+      suggestedFields: labels,
+      confidence: 0.8,
+    };
+  }
+
+  if (labels.length > 0) {
+    return {
+      ...base,
+      strategy: "hybrid",
+      reason: `Many ${fk.fromTable} rows share one ${fk.toTable}; keep the reference and denormalize ${labels.join(", ")} for display.`,
+      suggestedFields: labels,
+      confidence: 0.6,
+    };
+  }
+
+  return {
+    ...base,
+    strategy: "reference",
+    reason: `${fk.toTable} has no obvious label column to denormalize; keep a plain reference.`,
+    confidence: 0.5,
+  };
+}
+
+function recommendOwnedChildArray(
+  fk: SqlForeignKey,
+  sqlSchema: SqlSchema,
+  parentCollection: string,
+): EmbeddingRecommendation | null {
+  if (fk.cardinality !== "one-to-many" || fk.fromTable === fk.toTable) return null;
+  if (!fk.fromTable.startsWith(`${fk.toTable}_`)) return null;
+  if (sqlSchema.foreignKeys.some((other) => other.toTable === fk.fromTable)) return null;
+
+  return {
+    collection: parentCollection,
+    field: buildChildArrayField(sqlSchema, fk).name,
+    strategy: "array",
+    childTable: fk.fromTable,
+    reason: `${fk.fromTable} is named after ${fk.toTable} and nothing else references it, so its rows are likely owned by and read with their ${fk.toTable}.`,
+    confidence: 0.6,
+  };
+}
+
+/** Whether all children of the largest parent could be embedded in it. */
+function fitsInDocument(fk: SqlForeignKey, sqlSchema: SqlSchema): boolean {
+  const { maxChildren } = fk.fanOut!;
+  if (maxChildren > UNBOUNDED_FAN_OUT) return false;
+  const child = sqlSchema.tables.find((t) => t.name === fk.fromTable);
+  const childBytes = child ? estimateRowBytes(child) : undefined;
+  return childBytes == null || maxChildren * childBytes <= MAX_DOCUMENT_BYTES;
+}
+
+function labelColumns(table: SqlTable): string[] {
+  return table.columns
+    .filter((c) => !c.isPrimaryKey && LABEL_COLUMN_PATTERN.test(c.name))
+    .map((c) => c.name);
+}
+
+/** Rough size weight: text and array columns count 1, json/jsonb and bytea 2. */
+function textWeight(table: SqlTable): number {
+  return table.columns.reduce((sum, col) => sum + columnWeight(col), 0);
+}
+
+function columnWeight(col: SqlColumn): number {
+  if (col.type === "json" || col.type === "jsonb" || col.type === "bytea") return 2;
+  if (col.type === "text" || col.type === "array") return 1;
+  return 0;
+}
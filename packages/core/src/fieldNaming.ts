@@ -0,0 +1,220 @@
+import type { FieldNaming, FoldedTable, NoSqlCollection, NoSqlField, NoSqlIndex, NoSqlSchema } from "./model";
+import { collectionTable } from "./tableNames";
+
+// Fields are named after their columns; mapping.fieldNaming renames them
+// (first_name → firstName). A renamed field keeps its column in `column`,
+// which the migration scripts read rows by, and index keys, time-series
+// fields and discriminators follow the new names. Fields the mapping adds
+// (folded arrays, discriminators, tree fields) are named like columns; the
+// bookkeeping fields of buckets, which have no column a custom map could
+// name, follow camelCase and PascalCase only. Left as they are: _id, the
+// contents of sampled JSON columns (copied as stored), and the type and id
+// of typed references.
+
+/**
+ * Rename every field of `schema` by `naming`. The input is not modified.
+ * Applying the same naming again changes nothing, so a schema extended
+ * with new fields (recommendations) can be passed through it once more.
+ */
+export function applyFieldNaming(schema: NoSqlSchema, naming: FieldNaming | undefined): NoSqlSchema {
+  if (!naming || naming === "preserve") return schema;
+  const tables = new Map(schema.collections.map((c) => [c.name, collectionTable(c)]));
+
+  const collections = schema.collections.map((collection) => {
+    const bucketFields = collection.timeSeries?.bucketFields;
+    const fixed = bucketFields ? new Set(Object.values(bucketFields)) : undefined;
+    const fields = nameFields(collection.fields, naming, collectionTable(collection), tables, fixed);
+    const named: NoSqlCollection = { ...collection, fields };
+    const rename = (name: string): string => renamePath(name, collection.fields, fields);
+
+    if (collection.timeSeries) {
+      const ts = collection.timeSeries;
+      const itemsField = ts.itemsField;
+      // Bucket rows live in the items array; time and summary fields are named there.
+      const inRows = (name: string): string =>
+        itemsField ? renamePath(`${itemsField}.${name}`, collection.fields, fields).split(".")[1] : rename(name);
+      named.timeSeries = {
+        ...ts,
+        timeField: inRows(ts.timeField),
+        metaField: rename(ts.metaField),
+        ...(itemsField ? { itemsField: rename(itemsField) } : {}),
+        ...(ts.summaryFields ? { summaryFields: ts.summaryFields.map(inRows) } : {}),
+        ...(bucketFields
+          ? {
+              bucketFields: {
+                start: rename(bucketFields.start),
+                count: rename(bucketFields.count),
+                min: rename(bucketFields.min),
+                max: rename(bucketFields.max),
+              },
+            }
+          : {}),
+      };
+    }
+    if (collection.inheritance) {
+      named.inheritance = {
+        ...collection.inheritance,
+        discriminator: rename(collection.inheritance.discriminator),
+      };
+    }
+    return named;
+  });
+
+  const indexes = schema.indexes?.map((index) => {
+    const i = schema.collections.findIndex((c) => c.name === index.collection);
+    return i < 0 ? index : renameIndex(index, schema.collections[i].fields, collections[i].fields);
+  });
+
+  return { ...schema, collections, ...(indexes ? { indexes } : {}) };
+}
+
+/**
+ * `foldedTables` pointing at the fields they went into under the names of
+ * `named`, which is `schema` passed through applyFieldNaming().
+ */
+export function renameFoldedTables(
+  foldedTables: FoldedTable[],
+  schema: NoSqlSchema,
+  named: NoSqlSchema,
+): FoldedTable[] {
+  if (named === schema) return foldedTables;
+  return foldedTables.map((folded) => {
+    let reason = folded.reason;
+    const into = folded.into.map((target) => {
+      const i = schema.collections.findIndex((c) => c.name === target.collection);
+      if (i < 0) return target;
+      const field = renamePath(target.field, schema.collections[i].fields, named.collections[i].fields);
+      if (field === target.field) return target;
+      // The reason names the field as a word of its own (playlist.track_ids, type = "car").
+      reason = reason.replace(new RegExp(`(?<![\\w$])${escapeRegExp(target.field)}(?![\\w$])`, "g"), field);
+      return { ...target, field };
+    });
+    return { ...folded, into, reason };
+  });
+}
+
+/**
+ * `fields` renamed by `naming`, nested documents and array elements
+ * included. `table` is the SQL table the fields' columns belong to, for
+ * "table.column" keys of a custom map; `fixed` fields have no column and
+ * follow case styles only. A field whose new name another field already
+ * has keeps its name.
+ */
+export function nameFields(
+  fields: NoSqlField[],
+  naming: FieldNaming | undefined,
+  table?: string,
+  tables: Map<string, string> = new Map(),
+  fixed?: Set<string>,
+  embedded = false,
+): NoSqlField[] {
+  if (!naming || naming === "preserve") return fields;
+  const taken = new Set<string>();
+  return fields.map((field) => {
+    const wanted =
+      field.name === "_id"
+        ? field.name
+        : fixed?.has(field.name)
+          ? typeof naming === "string"
+            ? caseName(field.name, naming)
+            : field.name
+          : fieldNameFor(field.column ?? field.name, naming, table, field.name);
+    const clash =
+      wanted !== field.name && (taken.has(wanted) || fields.some((f) => f !== field && f.name === wanted));
+    const name = clash ? field.name : wanted;
+    taken.add(name);
+
+    const named: NoSqlField = { ...field, name };
+    // Values computed by the scripts, or copied from an embedded document,
+    // are not read from a column of their own.
+    const computed =
+      field.tree ||
+      field.polymorphic ||
+      field.discriminator ||
+      field.source ||
+      field.subtypeColumn ||
+      field.refColumns ||
+      fixed?.has(field.name);
+    if (name !== field.name && !computed && !embedded) named.column = field.column ?? field.name;
+
+    if (field.sampledValues != null || field.polymorphic) return named;
+    // Rows of another table carry that table's columns.
+    const nestedTable = field.source?.table ?? (field.refCollection ? tables.get(field.refCollection) : table);
+    // An _id made of key columns is read from them; other documents are copies.
+    if (field.fields) {
+      named.fields = nameFields(field.fields, naming, nestedTable, tables, undefined, field.name !== "_id");
+    }
+    if (field.items?.fields) {
+      named.items = { ...field.items, fields: nameFields(field.items.fields, naming, nestedTable, tables) };
+    }
+    return named;
+  });
+}
+
+/**
+ * Field name for `column` under `naming`. `name` is the field's current
+ * name, which the case styles convert; it defaults to the column.
+ */
+export function fieldNameFor(
+  column: string,
+  naming: FieldNaming | undefined,
+  table?: string,
+  name: string = column,
+): string {
+  if (!naming || naming === "preserve") return name;
+  if (naming === "camelCase" || naming === "PascalCase") return caseName(name, naming);
+  const mapped = (table != null ? naming[`${table}.${column}`] : undefined) ?? naming[column];
+  return typeof mapped === "string" && mapped !== "" ? mapped : name;
+}
+
+/** first_name, FirstName, firstName → firstName / FirstName; leading underscores are kept. */
+function caseName(name: string, style: "camelCase" | "PascalCase"): string {
+  const prefix = /^_*/.exec(name)![0];
+  const words = name
+    .slice(prefix.length)
+    .replace(/([a-z\d])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+  if (words.length === 0) return name;
+  const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1);
+  return (
+    prefix +
+    (style === "camelCase" ? words[0] + words.slice(1).map(capitalize).join("") : words.map(capitalize).join(""))
+  );
+}
+
+/** A dotted field path of `before` under the names the same fields have in `after`. */
+function renamePath(path: string, before: NoSqlField[], after: NoSqlField[]): string {
+  const [head, ...rest] = path.split(".");
+  const i = before.findIndex((f) => f.name === head);
+  if (i < 0) return path;
+  if (rest.length === 0) return after[i].name;
+  const nestedBefore = before[i].fields ?? before[i].items?.fields ?? [];
+  const nestedAfter = after[i].fields ?? after[i].items?.fields ?? [];
+  return [after[i].name, renamePath(rest.join("."), nestedBefore, nestedAfter)].join(".");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function renameIndex(index: NoSqlIndex, before: NoSqlField[], after: NoSqlField[]): NoSqlIndex {
+  const rename = (path: string): string => renamePath(path, before, after);
+  const renameFilter = (filter: Record<string, unknown>): Record<string, unknown> =>
+    Object.fromEntries(
+      Object.entries(filter).map(([key, value]) =>
+        key === "$and" && Array.isArray(value)
+          ? [key, value.map((part) => renameFilter(part as Record<string, unknown>))]
+          : [rename(key), value],
+      ),
+    );
+  return {
+    ...index,
+    keys: index.keys.map((k) => ({ ...k, field: rename(k.field) })),
+    ...(index.partialFilterExpression
+      ? { partialFilterExpression: renameFilter(index.partialFilterExpression) }
+      : {}),
+  };
+}
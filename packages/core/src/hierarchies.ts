@@ -0,0 +1,95 @@
+import type {
+  NoSqlCollection,
+  NoSqlField,
+  SqlForeignKey,
+  SqlSchema,
+  TableHierarchy,
+  TreePattern,
+} from "./model";
+import { collectionTable } from "./tableNames";
+
+// A table that references itself (category.parent_id, employee.reports_to)
+// stores a tree. SQL walks it with recursive queries; MongoDB documents
+// usually carry the walk's result instead, so that subtree and ancestor
+// queries are single index lookups. Besides the parent reference every
+// mapping keeps, mapping.treePattern adds one computed field per hierarchy:
+// - ancestors: [rootKey, ..., parentKey]
+// - materializedPath: ",rootKey,...,parentKey," (null for roots)
+// Migration scripts compute the field from the table's parent column.
+
+const PATH_SEPARATOR = ",";
+
+/** Self-referencing single-column FKs, in FK order. */
+export function detectHierarchies(sqlSchema: SqlSchema): SqlForeignKey[] {
+  return sqlSchema.foreignKeys.filter(
+    (fk) => fk.fromTable === fk.toTable && fk.fromColumns.length === 1,
+  );
+}
+
+/**
+ * Add the tree field chosen by `pattern` to the collection of each
+ * self-referencing table. Returns every hierarchy found, with the field it
+ * got; tables without a collection (e.g. folded) are left out.
+ */
+export function addTreeFields(
+  collections: NoSqlCollection[],
+  sqlSchema: SqlSchema,
+  pattern: TreePattern = "parentReference",
+): TableHierarchy[] {
+  const fks = detectHierarchies(sqlSchema);
+  const hierarchies: TableHierarchy[] = [];
+
+  for (const fk of fks) {
+    const collection = collections.find((c) => collectionTable(c) === fk.fromTable);
+    if (!collection) continue;
+    const hierarchy: TableHierarchy = {
+      table: fk.fromTable,
+      parentColumn: fk.fromColumn,
+      keyColumn: fk.toColumn,
+      pattern,
+    };
+    if (pattern !== "parentReference") {
+      // Tables with several hierarchies (reports_to and mentor_id) name each after its column.
+      const several = fks.filter((other) => other.fromTable === fk.fromTable).length > 1;
+      const field = buildTreeField(collection, fk, pattern, several);
+      collection.fields.push(field);
+      hierarchy.field = field.name;
+    }
+    hierarchies.push(hierarchy);
+  }
+
+  return hierarchies;
+}
+
+function buildTreeField(
+  collection: NoSqlCollection,
+  fk: SqlForeignKey,
+  pattern: Exclude<TreePattern, "parentReference">,
+  several: boolean,
+): NoSqlField {
+  const base = pattern === "ancestors" ? "ancestors" : "path";
+  let name = several ? `${fk.fromColumn}_${base}` : base;
+  if (collection.fields.some((f) => f.name === name)) {
+    name = `tree_${name}`;
+  }
+  const tree = { pattern, parentColumn: fk.fromColumn, keyColumn: fk.toColumn };
+
+  if (pattern === "ancestors") {
+    return {
+      name,
+      type: "array",
+      optional: false,
+      description: `${fk.toColumn} of every ancestor through ${fk.fromColumn}, root first (ancestors tree pattern)`,
+      items: { type: "reference", refCollection: collection.name },
+      tree,
+    };
+  }
+
+  return {
+    name,
+    type: "string",
+    optional: true,
+    description: `${fk.toColumn} of every ancestor through ${fk.fromColumn}, root first, as "${PATH_SEPARATOR}1${PATH_SEPARATOR}4${PATH_SEPARATOR}"; null for roots (materialized path tree pattern)`,
+    tree: { ...tree, separator: PATH_SEPARATOR },
+  };
+}
@@ -0,0 +1,240 @@
+import type { IdStrategy, NoSqlCollection, NoSqlField, SqlForeignKey, SqlSchema, SqlTable } from "./model";
+import { collectionTable } from "./tableNames";
+
+// Without mapping.idStrategy MongoDB gives every document an ObjectId and
+// the primary key stays a field, which references hold. With it, _id is the
+// document's identity:
+// - "primaryKey": the key columns move into _id; references to the table
+//   hold the key already, which is now the referenced _id
+// - "objectId" / "uuid": _id is assigned on first insert; the key stays a
+//   field to upsert on, and references to the table (array elements too)
+//   are marked refId so the migration looks the referenced _id up by key
+// The columns of a composite reference are replaced by one field: the _id
+// document built from them, or the _id looked up by them.
+// Tables without a primary key, buckets and time-series collections keep
+// MongoDB's ObjectId. Under "objectId" / "uuid", references within a
+// collection, key columns and references back to a collection that already
+// holds this one's _id keep the key: the referenced document may not have
+// been written yet, and documents are upserted and found by their key.
+// Their descriptions say so.
+
+/** Give each collection its _id by `strategy` and point references at it. */
+export function applyIdStrategy(
+  collections: NoSqlCollection[],
+  sqlSchema: SqlSchema,
+  strategy?: IdStrategy,
+): void {
+  if (!strategy) return;
+  const tableOf = (collection: NoSqlCollection) =>
+    sqlSchema.tables.find((t) => t.name === collectionTable(collection));
+
+  for (const collection of collections) {
+    const table = tableOf(collection);
+    if (!table || table.primaryKey.length === 0 || collection.timeSeries) continue;
+    if (strategy !== "primaryKey") {
+      collection.idStrategy = strategy;
+      continue;
+    }
+
+    const keyFields = table.primaryKey.map((column) => collection.fields.find((f) => f.name === column));
+    if (keyFields.some((f) => f == null || f.source != null)) continue;
+    const key = keyFields as NoSqlField[];
+    const id: NoSqlField =
+      key.length === 1
+        ? { ...key[0], name: "_id", column: table.primaryKey[0], optional: false }
+        : {
+            name: "_id",
+            type: "object",
+            optional: false,
+            description: `Primary key (${table.primaryKey.join(", ")})`,
+            fields: key.map((f) => ({ ...f, optional: false })),
+          };
+    collection.fields = [id, ...collection.fields.filter((f) => !key.includes(f))];
+    collection.idColumns = [...table.primaryKey];
+    collection.idStrategy = strategy;
+  }
+
+  for (const collection of collections) {
+    const table = tableOf(collection);
+    if (!table) continue;
+    // The time and owner fields of time-series collections are columns.
+    for (const fk of collection.timeSeries ? [] : sqlSchema.foreignKeys) {
+      if (fk.fromTable === table.name && fk.fromColumns.length > 1) {
+        foldCompositeReference(collection, table, fk, collections, sqlSchema, strategy);
+      }
+    }
+    if (strategy !== "primaryKey") referenceGeneratedIds(collection, table, collections, sqlSchema);
+  }
+}
+
+/**
+ * Replace the columns of the composite foreign key `fk` by one reference
+ * field when `fk` points at the referenced collection's primary key: its
+ * _id document ("primaryKey") or its generated _id (refId). Columns that
+ * are part of the collection's own key stay fields as well.
+ */
+function foldCompositeReference(
+  collection: NoSqlCollection,
+  table: SqlTable,
+  fk: SqlForeignKey,
+  collections: NoSqlCollection[],
+  sqlSchema: SqlSchema,
+  strategy: IdStrategy,
+): void {
+  const target = collections.find((c) => collectionTable(c) === fk.toTable);
+  if (!target?.idStrategy || (target === collection && strategy !== "primaryKey")) return;
+  const targetKey = sqlSchema.tables.find((t) => t.name === fk.toTable)?.primaryKey ?? [];
+  if (targetKey.length !== fk.toColumns.length || !targetKey.every((c) => fk.toColumns.includes(c))) return;
+  const refColumns = targetKey.map((column) => fk.fromColumns[fk.toColumns.indexOf(column)]);
+
+  const replaced = collection.fields.filter(
+    (f) =>
+      refColumns.includes(f.name) &&
+      f.type === "reference" &&
+      f.refCollection === target.name &&
+      !table.primaryKey.includes(f.name),
+  );
+  const kept = collection.fields.filter((f) => !replaced.includes(f));
+  // owner_id of (tenant_id, owner_id) → owner
+  const differing = fk.fromColumns.find((c, i) => c !== fk.toColumns[i]) ?? fk.fromColumns[fk.fromColumns.length - 1];
+  const name = [differing.replace(/_?id$/i, ""), target.name, `${target.name}_ref`].find(
+    (candidate) => candidate !== "" && !kept.some((f) => f.name === candidate),
+  );
+  if (!name) return;
+
+  const idFields = target.fields.find((f) => f.name === "_id")?.fields;
+  const field: NoSqlField = {
+    name,
+    type: "reference",
+    optional: refColumns.some((c) => table.columns.find((col) => col.name === c)?.nullable !== false),
+    refCollection: target.name,
+    description:
+      strategy === "primaryKey"
+        ? `Reference to ${fk.toTable}: its _id, built from (${refColumns.join(", ")}) (${fk.cardinality})`
+        : `Reference to ${fk.toTable}: its _id, looked up by (${refColumns.join(", ")}) (${fk.cardinality})`,
+    refColumns,
+    ...(strategy === "primaryKey" && idFields
+      ? { fields: idFields.map((f) => ({ name: f.name, type: f.type, optional: false })) }
+      : { refId: true }),
+  };
+  const at = collection.fields.findIndex((f) => replaced.includes(f));
+  collection.fields = [...kept.slice(0, at < 0 ? kept.length : at), field, ...kept.slice(at < 0 ? kept.length : at)];
+}
+
+/**
+ * Mark the single-column references of `collection` to a collection with a
+ * generated _id as refId, including those of its array elements. References
+ * that keep the key say so in their description.
+ */
+function referenceGeneratedIds(
+  collection: NoSqlCollection,
+  table: SqlTable,
+  collections: NoSqlCollection[],
+  sqlSchema: SqlSchema,
+): void {
+  // Bucket owners are written by the bucket code, under the key.
+  if (collection.timeSeries?.pattern === "buckets") return;
+  for (const field of collection.fields) {
+    referenceGeneratedIdsInArray(field, collection, collections, sqlSchema);
+    if (field.type !== "reference" || !field.refCollection || field.refColumns) continue;
+    if (!hasGeneratedId(collections, field.refCollection)) continue;
+    // Key columns keep their values, as documents are upserted and found by them.
+    if (
+      !table.primaryKey.includes(field.name) &&
+      referencesGeneratedId(collection, table.name, field.name, field.refCollection, collections, sqlSchema)
+    ) {
+      markRefId(field);
+    } else {
+      keepKey(field);
+    }
+  }
+}
+
+/**
+ * Mark the references of an array field's elements, read from the rows of
+ * `field.source`, as refId when they point at a collection with a generated
+ * _id: the elements themselves (folded ids) or their reference fields.
+ */
+export function referenceGeneratedIdsInArray(
+  field: NoSqlField,
+  collection: NoSqlCollection,
+  collections: NoSqlCollection[],
+  sqlSchema: SqlSchema,
+): void {
+  const { items, source } = field;
+  if (field.type !== "array" || !items || !source) return;
+  if (items.type === "reference" && items.refCollection && source.columns.length === 1) {
+    const column = source.columns[0];
+    if (referencesGeneratedId(collection, source.table, column, items.refCollection, collections, sqlSchema)) {
+      items.refId = true;
+    } else if (hasGeneratedId(collections, items.refCollection)) {
+      keepKey(field);
+    }
+  }
+  for (const item of items.fields ?? []) {
+    if (item.type !== "reference" || !item.refCollection) continue;
+    const column = item.column ?? item.name;
+    if (referencesGeneratedId(collection, source.table, column, item.refCollection, collections, sqlSchema)) {
+      markRefId(item);
+    } else if (hasGeneratedId(collections, item.refCollection)) {
+      keepKey(item);
+    }
+  }
+}
+
+/**
+ * Whether `column` of `fromTable`, stored in `collection`, can hold the _id
+ * of a `refCollection` document: that collection's _id is generated, the
+ * column is a foreign key to its whole primary key, and it is another
+ * collection that does not hold this one's _id already.
+ */
+function referencesGeneratedId(
+  collection: NoSqlCollection,
+  fromTable: string,
+  column: string,
+  refCollection: string,
+  collections: NoSqlCollection[],
+  sqlSchema: SqlSchema,
+): boolean {
+  const target = collections.find((c) => c.name === refCollection);
+  if (!target?.idStrategy || target === collection) return false;
+  const targetTable = collectionTable(target);
+  const fk = sqlSchema.foreignKeys.find(
+    (candidate) =>
+      candidate.fromTable === fromTable &&
+      candidate.toTable === targetTable &&
+      candidate.fromColumns.length === 1 &&
+      candidate.fromColumn === column,
+  );
+  const targetKey = sqlSchema.tables.find((t) => t.name === targetTable)?.primaryKey ?? [];
+  // The lookup is by the referenced document's key. Two collections
+  // holding each other's _id could not be migrated one after the other.
+  return (
+    fk != null &&
+    fk.toColumns.length === 1 &&
+    targetKey.join() === fk.toColumns[0] &&
+    !holdsIdOf(target, collection)
+  );
+}
+
+function hasGeneratedId(collections: NoSqlCollection[], name: string): boolean {
+  return collections.find((c) => c.name === name)?.idStrategy != null;
+}
+
+function holdsIdOf(collection: NoSqlCollection, referenced: NoSqlCollection): boolean {
+  return collection.fields.some((field) =>
+    [field, field.items, ...(field.items?.fields ?? [])].some(
+      (reference) => reference?.refId === true && reference.refCollection === referenced.name,
+    ),
+  );
+}
+
+function markRefId(field: NoSqlField): void {
+  field.refId = true;
+  // Range and enum rules of the key column do not hold for an _id.
+  delete field.constraints;
+}
+
+function keepKey(field: NoSqlField): void {
+  field.description = `${field.description ? `${field.description}; ` : ""}holds the key of the referenced row, not its _id`;
+}
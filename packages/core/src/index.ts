@@ -1,3 +1,64 @@
 export * from "./model";
 export * from "./analyze";
+export * from "./sqlParser";
+export {
+  splitSqlStatements,
+  tokenizeSql,
+  type SqlStatement,
+  type SqlToken,
+  type SqlTokenKind,
+  type SqlTokenizerOptions,
+  type TokenizeResult,
+} from "./sqlTokenizer";
+export {
+  describeColumnType,
+  getDialectSpec,
+  resolveDialect,
+  type ColumnTypeInfo,
+  type DialectSpec,
+} from "./sqlDialects";
 export * from "./nosqlMapping";
+export {
+  bareTableName,
+  collectionNamesForTables,
+  collectionTable,
+  filterTables,
+  findCollectionForTable,
+} from "./tableNames";
+export * from "./typeMapping";
+export { addTreeFields, detectHierarchies } from "./hierarchies";
+export {
+  applyTimeSeries,
+  BUCKET_FIELDS,
+  detectTimeSeries,
+  TIME_SERIES_MIN_ROWS,
+  type TimeSeriesCandidate,
+} from "./timeSeries";
+export {
+  detectSubtypeTables,
+  foldSubtypeTables,
+  type SubtypeTable,
+} from "./inheritance";
+export {
+  applyPolymorphicAssociations,
+  detectPolymorphicAssociations,
+  type PolymorphicColumns,
+} from "./polymorphicAssociations";
+export { applyFieldNaming } from "./fieldNaming";
+export { applyIdStrategy, referenceGeneratedIdsInArray } from "./idStrategy";
+export { applyMappingOverrides } from "./overrides";
+export { findJsonConflicts, inferJsonShape, jsonShapeToField } from "./jsonShapes";
+export { buildIndexes } from "./indexes";
+export {
+  checkDocumentSizes,
+  estimateRowBytes,
+  MAX_DOCUMENT_BYTES,
+  UNBOUNDED_FAN_OUT,
+} from "./documentSizes";
+export * from "./cardinality";
+export * from "./embeddingRules";
+export {
+  buildJsonSchemaValidator,
+  columnConstraints,
+  parseCheckConstraint,
+} from "./constraints";
@@ -0,0 +1,410 @@
+import type {
+  NoSqlCollection,
+  NoSqlIndex,
+  NoSqlTimeSeries,
+  SqlColumn,
+  SqlIndex,
+  SqlSchema,
+  SqlTable,
+} from "./model";
+import { parseCheckConstraint, splitConjuncts } from "./constraints";
+import { collectionTable } from "./tableNames";
+import { BUCKET_FIELDS } from "./timeSeries";
+import { mapColumnToNoSqlType } from "./typeMapping";
+
+// Deterministic translation of SQL keys and indexes into MongoDB indexes:
+// - PRIMARY KEY / UNIQUE constraints → unique indexes
+// - CREATE INDEX → same keys and order; UNIQUE stays unique, WHERE becomes
+//   partialFilterExpression, lower(col) / upper(col) become a
+//   case-insensitive collation
+// - FK columns and folded junction arrays → plain indexes for lookups
+// - tree fields (ancestors, materialized path) → plain indexes for subtrees
+// - bucket and time-series collections → owner + time only, as the row
+//   keys live inside buckets or cannot be unique in a time-series collection
+// - date fields named like expiry times → TTL candidates
+// Indexes whose keys cannot be expressed in MongoDB (other expressions,
+// full-text, spatial and range access methods) are left out.
+
+/** Access methods with no MongoDB equivalent in a regular index. */
+const UNSUPPORTED_METHODS = new Set(["gist", "spgist", "brin", "fulltext", "spatial"]);
+
+/** Field names that read as "this document expires at". */
+const EXPIRY_FIELD = /(?:^|_)(?:expires?|expiry|expiration)(?:_(?:at|on|date|time))?$|^(?:valid_until|ttl)$/i;
+
+const CASE_INSENSITIVE = { locale: "en", strength: 2 };
+
+/**
+ * Indexes for every collection that comes from a table of `sqlSchema`.
+ * Indexes with the same keys and collation are proposed once, the first in
+ * the order above winning (so a unique key beats a plain FK index).
+ */
+export function buildIndexes(
+  sqlSchema: SqlSchema,
+  collections: NoSqlCollection[],
+): NoSqlIndex[] {
+  const indexes: NoSqlIndex[] = [];
+
+  for (const collection of collections) {
+    const table = sqlSchema.tables.find((t) => t.name === collectionTable(collection));
+    if (!table) continue;
+    if (collection.timeSeries) {
+      indexes.push(timeSeriesIndex(collection, collection.timeSeries));
+      continue;
+    }
+
+    const candidates: NoSqlIndex[] = [];
+    // A primary key moved into _id has MongoDB's own _id index.
+    if (table.primaryKey.length > 0 && collection.idStrategy !== "primaryKey") {
+      candidates.push({
+        collection: collection.name,
+        keys: table.primaryKey.map((field) => ({ field, direction: 1 })),
+        unique: true,
+        origin: "primaryKey",
+        reason: `Primary key of ${table.name}`,
+      });
+    }
+
+    for (const columns of table.uniqueConstraints) {
+      const filter = nonNullFilter(table, columns);
+      candidates.push({
+        collection: collection.name,
+        keys: columns.map((field) => ({ field, direction: 1 })),
+        unique: true,
+        ...(filter ? { partialFilterExpression: filter } : {}),
+        origin: "unique",
+        reason: `UNIQUE (${columns.join(", ")}) on ${table.name}${
+          filter ? "; rows with NULL in the key are left out, as SQL allows duplicates there" : ""
+        }`,
+      });
+    }
+
+    for (const index of sqlSchema.indexes ?? []) {
+      if (index.table !== table.name) continue;
+      const translated = translateIndex(index, table, collection.name);
+      if (translated) candidates.push(translated);
+    }
+
+    const pk = new Set(table.primaryKey);
+    for (const fk of sqlSchema.foreignKeys) {
+      if (fk.fromTable !== table.name || fk.fromColumns.every((c) => pk.has(c))) continue;
+      candidates.push({
+        collection: collection.name,
+        keys: fk.fromColumns.map((field) => ({ field, direction: 1 })),
+        origin: "foreignKey",
+        reason: `References ${fk.toTable}; speeds up lookups and $lookup joins`,
+      });
+    }
+
+    for (const field of collection.fields) {
+      if (field.type !== "array" || !field.source || field.items?.type !== "reference") continue;
+      candidates.push({
+        collection: collection.name,
+        keys: [{ field: field.name, direction: 1 }],
+        origin: "foreignKey",
+        reason: `Multikey index on ids folded from ${field.source.table}`,
+      });
+    }
+
+    for (const field of collection.fields) {
+      if (!field.tree) continue;
+      candidates.push({
+        collection: collection.name,
+        keys: [{ field: field.name, direction: 1 }],
+        origin: "tree",
+        reason:
+          field.tree.pattern === "ancestors"
+            ? `Finds every descendant of a ${table.name} row (${field.name}: key)`
+            : `Finds a subtree by path prefix (${field.name}: /^,1,4,/)`,
+      });
+    }
+
+    const kept = dedupe(renameMovedKeys(candidates, collection, collections)).filter(
+      (index) => index.keys.length > 1 || index.keys[0].field !== "_id",
+    );
+    indexes.push(...kept, ...ttlCandidates(table, collection, kept));
+  }
+
+  return indexes;
+}
+
+function timeSeriesIndex(collection: NoSqlCollection, timeSeries: NoSqlTimeSeries): NoSqlIndex {
+  if (timeSeries.pattern === "buckets") {
+    return {
+      collection: collection.name,
+      keys: [
+        { field: timeSeries.metaField, direction: 1 },
+        { field: (timeSeries.bucketFields ?? BUCKET_FIELDS).start, direction: 1 },
+      ],
+      unique: true,
+      origin: "timeSeries",
+      reason: `One bucket per ${timeSeries.metaField} and ${timeSeries.window}`,
+    };
+  }
+  return {
+    collection: collection.name,
+    keys: [
+      { field: timeSeries.metaField, direction: 1 },
+      { field: timeSeries.timeField, direction: 1 },
+    ],
+    origin: "timeSeries",
+    reason: `Reads one ${timeSeries.metaField}'s rows by time (created by MongoDB 6.3+ itself)`,
+  };
+}
+
+function translateIndex(
+  index: SqlIndex,
+  table: SqlTable,
+  collection: string,
+): NoSqlIndex | null {
+  if (index.method && UNSUPPORTED_METHODS.has(index.method)) return null;
+
+  let collation: NoSqlIndex["collation"];
+  const keys: NoSqlIndex["keys"] = [];
+  for (const key of index.keys) {
+    let field = key.column;
+    if (!field && key.expression) {
+      // lower(email) is how SQL indexes case-insensitively; MongoDB uses a collation.
+      const folded = /^(?:lower|upper)\s*\(\s*["`[]?([\w$]+)["`\]]?\s*\)$/i.exec(key.expression);
+      if (!folded) return null;
+      field = folded[1];
+      collation = CASE_INSENSITIVE;
+    }
+    if (!field) return null;
+    keys.push({ field, direction: key.descending ? -1 : 1 });
+  }
+
+  const notes: string[] = [];
+  let unique = index.unique;
+  let filter: Record<string, unknown> | undefined;
+  if (index.where) {
+    filter = translatePredicate(index.where, table);
+    if (!filter && unique) {
+      // Enforcing uniqueness over all documents would reject valid data.
+      unique = false;
+      notes.push(`WHERE ${index.where} has no partialFilterExpression equivalent, so uniqueness is not enforced`);
+    } else if (!filter) {
+      notes.push(`WHERE ${index.where} dropped; the full index still serves the same queries`);
+    }
+  }
+  if (unique) {
+    const nonNull = nonNullFilter(table, keys.map((k) => k.field));
+    if (nonNull) filter = { ...nonNull, ...filter };
+  }
+  if (collation) notes.push("case-insensitive collation; queries must use the same collation");
+
+  return {
+    collection,
+    keys,
+    name: index.name,
+    ...(unique ? { unique } : {}),
+    ...(filter ? { partialFilterExpression: filter } : {}),
+    ...(collation ? { collation } : {}),
+    origin: "index",
+    reason: [`SQL index ${index.name}`, ...notes].join("; "),
+  };
+}
+
+/**
+ * partialFilterExpression for a WHERE predicate, or undefined when some part
+ * of it has no equivalent. MongoDB accepts equality, $exists, $gt/$gte/$lt/$lte,
+ * $type and $in there, but not IS NULL or negations.
+ */
+function translatePredicate(
+  where: string,
+  table: SqlTable,
+): Record<string, unknown> | undefined {
+  const filter: Record<string, unknown> = {};
+  const add = (field: string, condition: unknown): boolean => {
+    const current = filter[field];
+    if (current === undefined) {
+      filter[field] = condition;
+      return true;
+    }
+    // Two ranges on one field merge ({ $gt: 0 } + { $lt: 10 }); anything else conflicts.
+    if (isOperatorObject(current) && isOperatorObject(condition)) {
+      filter[field] = { ...current, ...condition };
+      return true;
+    }
+    return false;
+  };
+
+  for (const conjunct of splitConjuncts(where)) {
+    const notNull = /^["`[]?([\w$]+)["`\]]?\s+IS\s+NOT\s+NULL$/i.exec(conjunct);
+    if (notNull) {
+      const col = findColumn(table, notNull[1]);
+      const type = col && bsonType(col);
+      if (!col || !type || !add(col.name, { $type: type })) return undefined;
+      continue;
+    }
+
+    const flag = /^(NOT\s+)?["`[]?([\w$]+)["`\]]?(?:\s*(?:=|\bIS\b)\s*(TRUE|FALSE))?$/i.exec(conjunct);
+    if (flag) {
+      const col = findColumn(table, flag[2]);
+      if (!col || col.type !== "boolean") return undefined;
+      const value = (flag[3] ?? "TRUE").toUpperCase() === "TRUE";
+      if (!add(col.name, flag[1] ? !value : value)) return undefined;
+      continue;
+    }
+
+    const rule = parseCheckConstraint(table.name, conjunct);
+    const col = rule.column ? findColumn(table, rule.column) : undefined;
+    if (!col) return undefined;
+    if (rule.allowedValues) {
+      const values = rule.allowedValues;
+      if (!add(col.name, values.length === 1 ? values[0] : { $in: values })) return undefined;
+      continue;
+    }
+    const range: Record<string, number> = {};
+    if (rule.minimum != null) range[rule.exclusiveMinimum ? "$gt" : "$gte"] = rule.minimum;
+    if (rule.maximum != null) range[rule.exclusiveMaximum ? "$lt" : "$lte"] = rule.maximum;
+    if (Object.keys(range).length === 0 || !add(col.name, range)) return undefined;
+  }
+
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+/**
+ * SQL unique keys ignore rows with a NULL part, while a MongoDB unique index
+ * counts null as a value; restrict the index to documents whose nullable key
+ * fields hold a value of their type.
+ */
+function nonNullFilter(
+  table: SqlTable,
+  fields: string[],
+): Record<string, unknown> | undefined {
+  const filter: Record<string, unknown> = {};
+  for (const field of fields) {
+    const col = findColumn(table, field);
+    const type = col?.nullable ? bsonType(col) : undefined;
+    if (type) filter[field] = { $type: type };
+  }
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+/** Expiry-like date fields, proposed as TTL indexes that expire at the stored date. */
+function ttlCandidates(
+  table: SqlTable,
+  collection: NoSqlCollection,
+  existing: NoSqlIndex[],
+): NoSqlIndex[] {
+  return collection.fields
+    .filter((field) => field.type === "date" && EXPIRY_FIELD.test(field.name))
+    .map<NoSqlIndex>((field) => {
+      const plain = existing.find(
+        (i) => i.keys.length === 1 && i.keys[0].field === field.name,
+      );
+      return {
+        collection: collection.name,
+        keys: [{ field: field.name, direction: 1 }],
+        expireAfterSeconds: 0,
+        origin: "ttl",
+        reason: `${table.name}.${field.name} looks like an expiry time; MongoDB can delete documents once it has passed${
+          plain ? ` (replaces the ${plain.name ?? "existing"} index on the same field)` : ""
+        }`,
+      };
+    });
+}
+
+/**
+ * Point keys on columns that no longer are fields of their own at where
+ * their values went: a polymorphic type / id column to its typed reference
+ * (commentable.type, commentable.id), a primary key column to _id (_id.line_no
+ * for a composite key), the columns of a composite reference to its field.
+ */
+function renameMovedKeys(
+  candidates: NoSqlIndex[],
+  collection: NoSqlCollection,
+  collections: NoSqlCollection[],
+): NoSqlIndex[] {
+  const renamed = new Map<string, string>();
+  // BSON type of a composite reference, for the $type of partial filters.
+  const referenceTypes = new Map<string, string>();
+  for (const field of collection.fields) {
+    if (!field.polymorphic) continue;
+    renamed.set(field.polymorphic.typeColumn, `${field.name}.type`);
+    renamed.set(field.polymorphic.idColumn, `${field.name}.id`);
+  }
+  if (collection.idStrategy === "primaryKey") {
+    const idColumns = collection.idColumns ?? [];
+    for (const column of idColumns) renamed.set(column, idColumns.length === 1 ? "_id" : `_id.${column}`);
+  }
+  // The columns of a composite reference are indexed as the one field holding them.
+  for (const field of collection.fields) {
+    for (const column of field.refColumns ?? []) {
+      if (!collection.fields.some((f) => f.name === column)) renamed.set(column, field.name);
+    }
+    if (!field.refColumns) continue;
+    const target = collections.find((c) => c.name === field.refCollection);
+    referenceTypes.set(field.name, !field.refId ? "object" : target?.idStrategy === "uuid" ? "binData" : "objectId");
+  }
+  if (renamed.size === 0) return candidates;
+  const renameFilter = (filter: Record<string, unknown>): Record<string, unknown> =>
+    Object.fromEntries(
+      Object.entries(filter).map(([key, value]) => {
+        if (key === "$and" && Array.isArray(value)) {
+          return [key, value.map((part) => renameFilter(part as Record<string, unknown>))];
+        }
+        const field = renamed.get(key) ?? key;
+        const type = referenceTypes.get(field);
+        return [field, type && typeof value === "object" && value != null && "$type" in value ? { $type: type } : value];
+      }),
+    );
+  return candidates.map((index) => ({
+    ...index,
+    keys: index.keys
+      .map((key) => ({ ...key, field: renamed.get(key.field) ?? key.field }))
+      .filter((key, i, keys) => keys.findIndex((k) => k.field === key.field) === i),
+    ...(index.partialFilterExpression
+      ? { partialFilterExpression: renameFilter(index.partialFilterExpression) }
+      : {}),
+  }));
+}
+
+function dedupe(candidates: NoSqlIndex[]): NoSqlIndex[] {
+  const seen = new Set<string>();
+  return candidates.filter((index) => {
+    // Depending on the server version, MongoDB rejects a second index on the
+    // same key pattern whatever its other options; only collations may differ.
+    const key = JSON.stringify([index.keys, index.collation]);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function findColumn(table: SqlTable, name: string): SqlColumn | undefined {
+  return table.columns.find((c) => c.name === name || c.name.toLowerCase() === name.toLowerCase());
+}
+
+/** $type alias of the values a column's field holds, if it has a single one. */
+function bsonType(col: SqlColumn): string | undefined {
+  switch (mapColumnToNoSqlType(col).type) {
+    case "string":
+      return "string";
+    case "number":
+      return "number";
+    case "decimal":
+      return "decimal";
+    case "boolean":
+      return "bool";
+    case "date":
+      return "date";
+    case "binary":
+      return "binData";
+    case "object":
+      return "object";
+    case "array":
+      return "array";
+    default:
+      return undefined;
+  }
+}
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).every((k) => k.startsWith("$"))
+  );
+}
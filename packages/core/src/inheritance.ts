@@ -0,0 +1,208 @@
+import type {
+  FoldedTable,
+  InheritanceHierarchy,
+  InheritancePolicy,
+  NoSqlCollection,
+  NoSqlField,
+  NoSqlInheritance,
+  SqlForeignKey,
+  SqlSchema,
+  SqlTable,
+} from "./model";
+import { bareTableName, collectionTable } from "./tableNames";
+
+// Table-per-type inheritance: a subtype table (car, truck) has the same key
+// as its parent (vehicle) and that key is an FK to the parent's key. Each
+// table maps to its own collection by default; with mapping.inheritance =
+// "singleCollection" the subtypes are merged into the root's collection:
+// their columns become optional fields and a discriminator field names the
+// most specific subtype each row was found in.
+
+export interface SubtypeTable {
+  table: string;
+  parent: string;
+  /** FK from the subtype's key to the parent's key. */
+  foreignKey: SqlForeignKey;
+}
+
+/**
+ * Tables whose primary key is also an FK to another table's primary key.
+ * A parent needs two such tables, unless the only one is not named after
+ * it: user_profile under user reads as a one-to-one extension, not a subtype.
+ */
+export function detectSubtypeTables(sqlSchema: SqlSchema): SubtypeTable[] {
+  const byName = new Map(sqlSchema.tables.map((t) => [t.name, t]));
+  const candidates: SubtypeTable[] = [];
+
+  for (const fk of sqlSchema.foreignKeys) {
+    if (fk.fromTable === fk.toTable || candidates.some((c) => c.table === fk.fromTable)) continue;
+    const child = byName.get(fk.fromTable);
+    const parent = byName.get(fk.toTable);
+    if (!child || !parent) continue;
+    if (!isKey(child, fk.fromColumns) || !isKey(parent, fk.toColumns)) continue;
+    candidates.push({ table: fk.fromTable, parent: fk.toTable, foreignKey: fk });
+  }
+
+  return candidates.filter((candidate) => {
+    const siblings = candidates.filter((c) => c.parent === candidate.parent);
+    if (siblings.length > 1) return true;
+    const parent = byName.get(candidate.parent)!;
+    const child = byName.get(candidate.table)!;
+    return !bareTableName(child).startsWith(`${bareTableName(parent)}_`);
+  });
+}
+
+/**
+ * List every table-per-type hierarchy and, for "singleCollection", merge the
+ * subtype collections into their root's. Returns the merged subtypes as
+ * folded tables; references to them are pointed at the root collection.
+ */
+export function foldSubtypeTables(
+  collections: NoSqlCollection[],
+  sqlSchema: SqlSchema,
+  names: Map<string, string>,
+  policy: InheritancePolicy = "collections",
+): { hierarchies: InheritanceHierarchy[]; folded: FoldedTable[] } {
+  const subtypes = detectSubtypeTables(sqlSchema);
+  const parentOf = new Map(subtypes.map((s) => [s.table, s]));
+  const rootOf = (table: string): string => {
+    const seen = new Set<string>();
+    let current = table;
+    while (parentOf.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = parentOf.get(current)!.parent;
+    }
+    return current;
+  };
+  const depthOf = (table: string): number => {
+    let depth = 0;
+    for (let t = table; parentOf.has(t) && depth < subtypes.length; t = parentOf.get(t)!.parent) depth++;
+    return depth;
+  };
+
+  const roots = new Map<string, SubtypeTable[]>();
+  for (const subtype of subtypes) {
+    const root = rootOf(subtype.table);
+    if (root === subtype.table) continue;
+    roots.set(root, [...(roots.get(root) ?? []), subtype]);
+  }
+
+  const hierarchies: InheritanceHierarchy[] = [];
+  const folded: FoldedTable[] = [];
+  const retarget = new Map<string, string>();
+
+  for (const [rootTable, members] of roots) {
+    const ordered = [...members].sort((a, b) => depthOf(b.table) - depthOf(a.table));
+    const root = collections.find((c) => collectionTable(c) === rootTable);
+    if (policy !== "singleCollection" || !root) {
+      hierarchies.push({ table: rootTable, subtypes: ordered.map((s) => s.table), policy });
+      continue;
+    }
+
+    const discriminator = ["type", `${root.name}_type`, "_type"].find(
+      (name) => !root.fields.some((f) => f.name === name),
+    )!;
+    const valueOf = (table: string): string => names.get(table) ?? table;
+    const inheritance: NoSqlInheritance = {
+      discriminator,
+      value: root.name,
+      subtypes: ordered.map((s) => ({
+        table: s.table,
+        value: valueOf(s.table),
+        joinColumns: s.foreignKey.fromColumns,
+        parentColumns: s.foreignKey.fromColumns.map((_, i) => rootColumn(s, i, parentOf)),
+      })),
+    };
+
+    const merged: NoSqlField[] = [];
+    for (const subtype of [...inheritance.subtypes].reverse()) {
+      const collection = collections.find((c) => collectionTable(c) === subtype.table);
+      for (const field of collection?.fields ?? []) {
+        if (subtype.joinColumns.includes(field.name)) continue;
+        const taken = (name: string): boolean =>
+          name === discriminator || [...root.fields, ...merged].some((f) => f.name === name);
+        const name = taken(field.name) ? `${subtype.value}_${field.name}` : field.name;
+        if (field.source) {
+          // Sourced arrays join on the subtype's key, which equals the root's.
+          const parentColumns = field.source.parentColumns.map((column) => {
+            const i = subtype.joinColumns.indexOf(column);
+            return i >= 0 ? subtype.parentColumns[i] : column;
+          });
+          merged.push({ ...field, name, source: { ...field.source, parentColumns } });
+        } else {
+          merged.push({
+            ...field,
+            name,
+            optional: true,
+            subtypeColumn: { table: subtype.table, column: field.name },
+          });
+        }
+      }
+      retarget.set(subtype.value, root.name);
+      folded.push({
+        table: subtype.table,
+        into: [{ collection: root.name, field: discriminator, ...(root.table ? { table: root.table } : {}) }],
+        reason: `${subtype.table} is a subtype of ${parentOf.get(subtype.table)!.parent} (it shares its key); its rows live in ${root.name} with ${discriminator} = "${subtype.value}".`,
+      });
+    }
+
+    root.fields.push(
+      {
+        name: discriminator,
+        type: "string",
+        optional: false,
+        description: `Subtype of the ${root.name} (table-per-type inheritance)`,
+        constraints: { allowedValues: [root.name, ...inheritance.subtypes.map((s) => s.value)] },
+        discriminator: true,
+      },
+      ...merged,
+    );
+    root.inheritance = inheritance;
+    hierarchies.push({
+      table: rootTable,
+      subtypes: ordered.map((s) => s.table),
+      policy,
+      discriminator,
+    });
+  }
+
+  if (retarget.size > 0) {
+    for (const collection of collections) retargetReferences(collection.fields, retarget);
+  }
+  return { hierarchies, folded };
+}
+
+/** Root-table column paired with the subtype's i-th key column, following nested subtypes up. */
+function rootColumn(subtype: SubtypeTable, i: number, parentOf: Map<string, SubtypeTable>): string {
+  let column = subtype.foreignKey.toColumns[i];
+  const seen = new Set([subtype.table]);
+  for (let up = parentOf.get(subtype.parent); up && !seen.has(up.table); up = parentOf.get(up.parent)) {
+    seen.add(up.table);
+    const j = up.foreignKey.fromColumns.indexOf(column);
+    if (j < 0) break;
+    column = up.foreignKey.toColumns[j];
+  }
+  return column;
+}
+
+function retargetReferences(fields: NoSqlField[], retarget: Map<string, string>): void {
+  for (const field of fields) {
+    if (field.refCollection && retarget.has(field.refCollection)) {
+      field.refCollection = retarget.get(field.refCollection);
+    }
+    if (field.items?.refCollection && retarget.has(field.items.refCollection)) {
+      field.items = { ...field.items, refCollection: retarget.get(field.items.refCollection) };
+    }
+    if (field.fields) retargetReferences(field.fields, retarget);
+    if (field.items?.fields) retargetReferences(field.items.fields, retarget);
+  }
+}
+
+/** Whether `columns` are exactly the table's primary key. */
+function isKey(table: SqlTable, columns: string[]): boolean {
+  return (
+    table.primaryKey.length > 0 &&
+    table.primaryKey.length === columns.length &&
+    table.primaryKey.every((c) => columns.includes(c))
+  );
+}
@@ -0,0 +1,138 @@
+import type {
+  JsonShape,
+  JsonTypeConflict,
+  JsonValueType,
+  NoSqlArrayItems,
+  NoSqlField,
+  SqlSchema,
+} from "./model";
+
+// json / jsonb columns say nothing about their content in the schema. When
+// values were sampled (analyze --sample-json), their shapes are merged into
+// one JsonShape per column: every key path seen, with a count per JSON type.
+// The shape becomes nested fields of the column's NoSqlField; paths where
+// samples disagree on the type are listed as conflicts instead of guessed.
+
+/** Merge sampled values (already parsed JSON; null for SQL NULL) into one shape. */
+export function inferJsonShape(values: unknown[]): JsonShape {
+  const shape = emptyShape();
+  for (const value of values) addValue(shape, value);
+  return shape;
+}
+
+/**
+ * Field type, nested fields and array items described by a sampled shape.
+ * Object members missing from (or null in) some samples are optional; a
+ * path with more than one type is "unknown" and reported by
+ * findJsonConflicts().
+ */
+export function jsonShapeToField(shape: JsonShape): Pick<NoSqlField, "type" | "items" | "fields"> {
+  const type = shapeType(shape);
+  if (type === "object") {
+    return { type, fields: objectFields(shape) };
+  }
+  if (type === "array") {
+    return { type, items: jsonShapeToItems(shape.items ?? emptyShape()) };
+  }
+  return { type };
+}
+
+/** Paths of sampled JSON columns whose values had more than one type. */
+export function findJsonConflicts(sqlSchema: SqlSchema): JsonTypeConflict[] {
+  const conflicts: JsonTypeConflict[] = [];
+  for (const table of sqlSchema.tables) {
+    for (const col of table.columns) {
+      if (!col.jsonShape) continue;
+      collectConflicts(col.jsonShape, col.name, (path, types) => {
+        const seen = Object.entries(types)
+          .map(([type, count]) => `${type} (${count})`)
+          .join(", ");
+        conflicts.push({
+          table: table.name,
+          column: col.name,
+          path,
+          types,
+          message: `${table.name}.${path} holds ${seen} in the sampled rows; typed as unknown.`,
+        });
+      });
+    }
+  }
+  return conflicts;
+}
+
+function emptyShape(): JsonShape {
+  return { count: 0, nulls: 0, types: {} };
+}
+
+function addValue(shape: JsonShape, value: unknown): void {
+  shape.count++;
+  if (value == null) {
+    shape.nulls++;
+    return;
+  }
+  const type = jsonType(value);
+  shape.types[type] = (shape.types[type] ?? 0) + 1;
+  if (type === "object") {
+    shape.properties ??= [];
+    for (const [name, member] of Object.entries(value as Record<string, unknown>)) {
+      let property = shape.properties.find((p) => p.name === name);
+      if (!property) {
+        property = { name, ...emptyShape() };
+        shape.properties.push(property);
+      }
+      addValue(property, member);
+    }
+  } else if (type === "array") {
+    shape.items ??= emptyShape();
+    for (const element of value as unknown[]) addValue(shape.items, element);
+  }
+}
+
+function jsonType(value: unknown): JsonValueType {
+  if (Array.isArray(value)) return "array";
+  switch (typeof value) {
+    case "string":
+      return "string";
+    case "number":
+    case "bigint":
+      return "number";
+    case "boolean":
+      return "boolean";
+    default:
+      return "object";
+  }
+}
+
+/** The shape's single type; "unknown" when samples disagree or were all null. */
+function shapeType(shape: JsonShape): JsonValueType | "unknown" {
+  const types = Object.keys(shape.types) as JsonValueType[];
+  return types.length === 1 ? types[0] : "unknown";
+}
+
+function objectFields(shape: JsonShape): NoSqlField[] {
+  const objects = shape.types.object ?? 0;
+  return (shape.properties ?? []).map((property) => ({
+    name: property.name,
+    ...jsonShapeToField(property),
+    optional: property.count < objects || property.nulls > 0,
+  }));
+}
+
+function jsonShapeToItems(shape: JsonShape): NoSqlArrayItems {
+  const type = shapeType(shape);
+  if (type === "object") return { type, fields: objectFields(shape) };
+  if (type === "array") return { type, items: jsonShapeToItems(shape.items ?? emptyShape()) };
+  return { type };
+}
+
+function collectConflicts(
+  shape: JsonShape,
+  path: string,
+  report: (path: string, types: JsonShape["types"]) => void,
+): void {
+  if (Object.keys(shape.types).length > 1) report(path, shape.types);
+  for (const property of shape.properties ?? []) {
+    collectConflicts(property, `${path}.${property.name}`, report);
+  }
+  if (shape.items) collectConflicts(shape.items, `${path}[]`, report);
+}
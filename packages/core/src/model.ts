@@ -1,20 +1,36 @@
 export type SqlColumnType =
+  | "smallint"
   | "integer"
   | "bigint"
   | "serial"
   | "bigserial"
   | "numeric"
+  | "real"
+  | "double precision"
+  | "money"
+  | "char"
   | "text"
   | "varchar"
+  | "bytea"
   | "boolean"
   | "timestamp"
   | "timestamptz"
   | "date"
+  | "time"
+  | "interval"
+  | "inet"
   | "json"
   | "jsonb"
   | "uuid"
+  /** See SqlColumn.enumType / enumValues. */
+  | "enum"
+  /** See SqlColumn.elementType / arrayDimensions. */
+  | "array"
   | "unknown";
 
+/** SQL dialects understood by the offline DDL parser. */
+export type SqlDialect = "postgres" | "mysql" | "sqlite" | "mssql";
+
 export interface SqlColumn {
   name: string;
   type: SqlColumnType;
@@ -22,6 +38,53 @@ export interface SqlColumn {
   isPrimaryKey: boolean;
   isUnique: boolean;
   hasDefault: boolean;
+  /** Type as declared or reported by the database, e.g. "numeric(12,2)" or "text[]". */
+  rawType?: string;
+  /** Declared length of character and binary types, e.g. 120 for varchar(120). */
+  length?: number;
+  /** Declared precision and scale of exact numerics, e.g. 12 and 2 for numeric(12,2). */
+  precision?: number;
+  scale?: number;
+  /** Element type and nesting depth when type is "array", e.g. "text" and 1 for text[]. */
+  elementType?: SqlColumnType;
+  arrayDimensions?: number;
+  /** Default expression as written, e.g. "now()" or "nextval('album_id_seq'::regclass)". */
+  defaultExpression?: string;
+  /** Named enum type of the column (or of its elements), see SqlSchema.enums. */
+  enumType?: string;
+  /** Labels allowed by the column's enum type, named (Postgres) or inline (MySQL ENUM(...)). */
+  enumValues?: string[];
+  /** COMMENT ON COLUMN (Postgres) or inline COMMENT '...' (MySQL) text. */
+  comment?: string;
+  /** Value statistics, when the schema was profiled (see SqlTable.statistics). */
+  statistics?: SqlColumnStatistics;
+  /** json / jsonb only: structure merged from sampled values (analyze --sample-json). */
+  jsonShape?: JsonShape;
+}
+
+export type JsonValueType = "string" | "number" | "boolean" | "object" | "array";
+
+/** What sampled JSON values looked like at one path; see inferJsonShape(). */
+export interface JsonShape {
+  /** Values seen at this path, nulls included. */
+  count: number;
+  nulls: number;
+  /** How many non-null values had each JSON type; more than one type is a conflict. */
+  types: Partial<Record<JsonValueType, number>>;
+  /** Members of object values, in first-seen order. */
+  properties?: Array<JsonShape & { name: string }>;
+  /** Elements of array values, merged. */
+  items?: JsonShape;
+}
+
+/** What the database's planner statistics say about a column's values. */
+export interface SqlColumnStatistics {
+  /** Share of rows where the column is NULL, from 0 to 1. */
+  nullFraction?: number;
+  /** Estimated number of distinct non-null values. */
+  distinctCount?: number;
+  /** Average width of a non-null value, in bytes. */
+  avgBytes?: number;
 }
 
 export type SqlRelationshipCardinality = "one-to-one" | "one-to-many" | "many-to-many";
@@ -29,27 +92,136 @@ export type SqlRelationshipCardinality = "one-to-one" | "one-to-many" | "many-to
 export interface SqlForeignKey {
   name: string;
   fromTable: string;
+  /** First referencing column; equal to fromColumns[0]. */
   fromColumn: string;
+  /** Referencing columns in constraint order (more than one for composite keys). */
+  fromColumns: string[];
   toTable: string;
+  /** First referenced column; equal to toColumns[0]. */
   toColumn: string;
+  /** Referenced columns, positionally paired with fromColumns. */
+  toColumns: string[];
   cardinality: SqlRelationshipCardinality;
+  /** Why the cardinality was chosen; set by inferCardinality(). */
+  cardinalityReason?: string;
+  /** Children per parent row, counted when the schema was profiled. */
+  fanOut?: SqlForeignKeyFanOut;
+}
+
+/**
+ * How many rows of fromTable reference one row of toTable, over the parent
+ * rows that are referenced at all (rows with a NULL key are not counted).
+ */
+export interface SqlForeignKeyFanOut {
+  /** Distinct parent keys referenced. */
+  parents: number;
+  maxChildren: number;
+  /** 95th percentile of children per parent. */
+  p95Children: number;
+  avgChildren: number;
 }
 
 export interface SqlTable {
+  /** Table name; qualified as schema.table when several schemas are analyzed. */
   name: string;
+  /** Schema (or MySQL database) the table was read from, when known. */
+  schema?: string;
   columns: SqlColumn[];
   primaryKey: string[];
   uniqueConstraints: string[][];
+  /** COMMENT ON TABLE (Postgres) or COMMENT = '...' table option (MySQL) text. */
+  comment?: string;
+  /** PARTITION BY clause of a partitioned table, e.g. "RANGE (created_at)". */
+  partitionKey?: string;
+  /** Partitions (sub-partitions included); their rows are read through this table. */
+  partitions?: SqlTablePartition[];
+  /**
+   * Size of the table's data, when the schema was profiled against a live
+   * database (analyze --profile). DDL files carry no statistics.
+   */
+  statistics?: SqlTableStatistics;
+}
+
+export interface SqlTableStatistics {
+  /** Estimated number of rows (Postgres pg_class.reltuples, MySQL TABLE_ROWS). */
+  rowCount?: number;
+  /** Average row width in bytes. */
+  avgRowBytes?: number;
+}
+
+/** A partition of a partitioned table; it has no collection of its own. */
+export interface SqlTablePartition {
+  /** Partition name; schema.table when it lives in another schema than its parent. */
+  name: string;
+  /** Partition bound, e.g. "FOR VALUES FROM ('2024-01-01') TO ('2025-01-01')". */
+  bound?: string;
+}
+
+/** A named enum type, e.g. CREATE TYPE mood AS ENUM ('sad', 'ok', 'happy'). */
+export interface SqlEnumType {
+  name: string;
+  values: string[];
+}
+
+/**
+ * A CHECK constraint. Simple rules on one column (IN lists, comparisons with
+ * constants, BETWEEN and AND-combinations of those) are also broken down
+ * into `column` plus allowed values and/or a range; anything else only keeps
+ * its expression.
+ */
+export interface SqlCheckConstraint {
+  name?: string;
+  table: string;
+  /** Boolean expression inside CHECK (...), as written. */
+  expression: string;
+  column?: string;
+  allowedValues?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  /** Whether `minimum` / `maximum` are excluded (> and < rather than >= and <=). */
+  exclusiveMinimum?: boolean;
+  exclusiveMaximum?: boolean;
+}
+
+/**
+ * A secondary index, e.g. CREATE UNIQUE INDEX ... ON t (a, lower(b) DESC) WHERE ...
+ * Indexes backing PRIMARY KEY and UNIQUE constraints are not listed; those
+ * are SqlTable.primaryKey and uniqueConstraints.
+ */
+export interface SqlIndex {
+  name: string;
+  table: string;
+  /** Key parts in index order. */
+  keys: SqlIndexKey[];
+  unique: boolean;
+  /** Predicate of a partial index, as written after WHERE. */
+  where?: string;
+  /** Access method, e.g. "btree", "gin" (Postgres USING) or "fulltext" (MySQL). */
+  method?: string;
+}
+
+/** One key part of an index: a column or, for expression indexes, an expression. */
+export interface SqlIndexKey {
+  column?: string;
+  /** Indexed expression as written, e.g. "lower(email)". */
+  expression?: string;
+  descending?: boolean;
 }
 
 export interface SqlSchema {
   tables: SqlTable[];
   foreignKeys: SqlForeignKey[];
+  enums?: SqlEnumType[];
+  checkConstraints?: SqlCheckConstraint[];
+  indexes?: SqlIndex[];
 }
 
 export type NoSqlFieldType =
   | "string"
   | "number"
+  /** Exact decimal (e.g. MongoDB Decimal128) for money and high-precision numerics. */
+  | "decimal"
+  | "binary"
   | "boolean"
   | "date"
   | "object"
@@ -68,27 +240,468 @@ export interface NoSqlField {
    * propose embedded sub-documents, e.g. album.artist.{id,name}.
    */
   fields?: NoSqlField[];
+  /** Element shape for array fields. */
+  items?: NoSqlArrayItems;
+  /**
+   * Where an array field's elements come from when they are not columns of
+   * the collection's own table, e.g. rows of a folded junction table.
+   */
+  source?: NoSqlFieldSource;
+  /** Value rules carried over from SQL enum types and CHECK constraints. */
+  constraints?: NoSqlFieldConstraints;
+  /**
+   * json / jsonb columns: number of non-null values the nested `fields` or
+   * `items` were inferred from. Such values are copied as stored.
+   */
+  sampledValues?: number;
+  /**
+   * Computed from a self-referencing hierarchy while migrating (ancestors
+   * array or materialized path) rather than copied from a column.
+   */
+  tree?: NoSqlFieldTree;
+  /** Typed reference built from a polymorphic type + id column pair. */
+  polymorphic?: NoSqlPolymorphicReference;
+  /** Column of a subtype table merged into its root collection (table-per-type inheritance). */
+  subtypeColumn?: { table: string; column: string };
+  /** Holds each document's subtype (table-per-type inheritance); see NoSqlInheritance. */
+  discriminator?: boolean;
+  /** SQL column the value is read from, when the field was renamed (see FieldNaming, MappingOverrides). */
+  column?: string;
+  /**
+   * reference only: holds the referenced document's generated _id, which
+   * the migration looks up by the key in `column`, or in `refColumns`
+   * (see IdStrategy).
+   */
+  refId?: boolean;
+  /**
+   * reference only: columns of a composite foreign key the field replaces,
+   * in the order of the referenced primary key. With `fields` the value is
+   * the referenced _id document built from them; with `refId`, the _id
+   * looked up by them.
+   */
+  refColumns?: string[];
+}
+
+/**
+ * A polymorphic association stored as `{ type, id }`, e.g. commentable:
+ * { type: "post", id: 42 } from commentable_type = 'Post', commentable_id = 42.
+ */
+export interface NoSqlPolymorphicReference {
+  typeColumn: string;
+  idColumn: string;
+  /** Stored type values and the collection each names, when known. */
+  targets: Array<{ value: string; collection: string }>;
+  /**
+   * Django: table whose rows name the types (content_type_id →
+   * django_content_type); each row's app_label_model is its collection.
+   */
+  typeTable?: string;
+}
+
+/** How a tree field is computed; see TreePattern. */
+export interface NoSqlFieldTree {
+  pattern: Exclude<TreePattern, "parentReference">;
+  /** Column of the collection's table holding the parent's key, e.g. parent_id. */
+  parentColumn: string;
+  /** Key column that parentColumn references, e.g. id. */
+  keyColumn: string;
+  /** materializedPath only: written before, between and after the keys, e.g. ",1,4,9,". */
+  separator?: string;
+}
+
+/** Allowed values and numeric range of a field, in JSON Schema terms. */
+export interface NoSqlFieldConstraints {
+  allowedValues?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: boolean;
+  exclusiveMaximum?: boolean;
+}
+
+export interface NoSqlArrayItems {
+  type: NoSqlFieldType;
+  refCollection?: string;
+  /** reference items: each holds the referenced document's generated _id (see NoSqlField.refId). */
+  refId?: boolean;
+  /** Element fields when items are sub-documents. */
+  fields?: NoSqlField[];
+  /** Inner element shape when items are themselves arrays (multi-dimensional SQL arrays). */
+  items?: NoSqlArrayItems;
+}
+
+export interface NoSqlFieldSource {
+  /** SQL table whose rows are gathered into the array. */
+  table: string;
+  /** Columns of `table` matched against the parent row... */
+  joinColumns: string[];
+  /** ...positionally paired with these columns of the parent table. */
+  parentColumns: string[];
+  /** Columns of `table` copied into each element. */
+  columns: string[];
+  /** Order of elements; also decides which rows survive the limit. */
+  sort?: NoSqlSortSpec;
+  /** Keep at most this many elements per parent (subset pattern). */
+  limit?: number;
+}
+
+export interface NoSqlSortSpec {
+  column: string;
+  direction: "asc" | "desc";
 }
 
 export interface NoSqlCollection {
   name: string;
+  /** Source table, when its name differs from the collection's (see collectionNamesForTables). */
+  table?: string;
   fields: NoSqlField[];
   description?: string;
+  /** Set when the table's rows are stored as buckets or in a MongoDB time-series collection. */
+  timeSeries?: NoSqlTimeSeries;
+  /** Set when subtype tables were merged into this collection. */
+  inheritance?: NoSqlInheritance;
+  /**
+   * Columns whose values become the documents' _id: one column as is,
+   * several as an embedded document. MongoDB generates an ObjectId otherwise.
+   */
+  idColumns?: string[];
+  /** How _id is assigned, when mapping.idStrategy applies to the collection. */
+  idStrategy?: IdStrategy;
+}
+
+/**
+ * Subtype tables merged into a root collection: each document holds its
+ * subtype's columns and the subtype's name in the discriminator field.
+ */
+export interface NoSqlInheritance {
+  discriminator: string;
+  /** Discriminator of rows found in no subtype table. */
+  value: string;
+  /** Most specific first, so the deepest subtype a row is found in names it. */
+  subtypes: Array<{
+    table: string;
+    value: string;
+    /** Subtype key columns, positionally paired with the root table's `parentColumns`. */
+    joinColumns: string[];
+    parentColumns: string[];
+  }>;
+}
+
+/** How a time-series table is stored; see TimeSeriesPattern. */
+export interface NoSqlBucketFields {
+  start: string;
+  count: string;
+  min: string;
+  max: string;
+}
+
+export interface NoSqlTimeSeries {
+  pattern: Exclude<TimeSeriesPattern, "documents">;
+  /** Field of the table's time column, e.g. recorded_at (in the rows of a bucket). */
+  timeField: string;
+  /** Field of the owner FK column, e.g. sensor_id: the metaField, or what a bucket is kept per. */
+  metaField: string;
+  /** Time each bucket covers; for "timeseries" it picks the MongoDB granularity. */
+  window: TimeSeriesWindow;
+  /** buckets only: array field holding the bucket's rows. */
+  itemsField?: string;
+  /** buckets only: fields of the rows whose smallest and largest values are kept. */
+  summaryFields?: string[];
+  /**
+   * buckets only: fields the bucket keeps its window start, row count and
+   * smallest / largest values in (bucket_start, count, min, max, or as
+   * renamed by mapping.fieldNaming).
+   */
+  bucketFields?: NoSqlBucketFields;
 }
 
 export interface NoSqlSchema {
   collections: NoSqlCollection[];
+  /** Indexes to create, derived from SQL keys and indexes; see buildIndexes(). */
+  indexes?: NoSqlIndex[];
+}
+
+/**
+ * What a proposed MongoDB index stands in for:
+ * - primaryKey / unique: a SQL PRIMARY KEY or UNIQUE constraint
+ * - index: a SQL secondary index (CREATE INDEX)
+ * - foreignKey: an FK column (or folded junction array) used for lookups
+ * - ttl: a date field that looks like an expiry time (candidate only)
+ * - tree: an ancestors array or materialized path, for subtree queries
+ * - timeSeries: owner and time of a bucket or time-series collection
+ */
+export type NoSqlIndexOrigin =
+  | "primaryKey"
+  | "unique"
+  | "index"
+  | "foreignKey"
+  | "ttl"
+  | "tree"
+  | "timeSeries";
+
+export interface NoSqlIndex {
+  collection: string;
+  /** Key fields in order; 1 ascending, -1 descending. */
+  keys: Array<{ field: string; direction: 1 | -1 }>;
+  /** Name of the SQL index it comes from, reused as the MongoDB index name. */
+  name?: string;
+  unique?: boolean;
+  partialFilterExpression?: Record<string, unknown>;
+  /** Case-insensitive collation standing in for an index on lower(col) / upper(col). */
+  collation?: { locale: string; strength: number };
+  /** TTL candidates only: seconds after the key field's date the document expires. */
+  expireAfterSeconds?: number;
+  origin: NoSqlIndexOrigin;
+  reason: string;
+}
+
+/**
+ * Where pure many-to-many junction tables end up:
+ * - "keep": one collection per junction table (default)
+ * - "both": an array field on both referenced collections
+ * - "first" / "second": an array field only on the collection referenced by
+ *   the junction table's first / second foreign key
+ */
+export type JunctionTablePolicy = "keep" | "both" | "first" | "second";
+
+/**
+ * Shape of folded junction array elements:
+ * - "ids": the referenced key values (single-column keys only)
+ * - "documents": sub-documents with the referenced key plus the junction
+ *   table's extra columns (e.g. added_at)
+ */
+export type JunctionItemStyle = "ids" | "documents";
+
+/**
+ * How self-referencing hierarchies (category.parent_id → category) are stored:
+ * - "parentReference": the parent's key only, as in SQL (default)
+ * - "ancestors": plus an array of every ancestor's key, root first
+ * - "materializedPath": plus a string of the ancestors' keys, e.g. ",1,4,9,"
+ */
+export type TreePattern = "parentReference" | "ancestors" | "materializedPath";
+
+/**
+ * How append-only time-series tables (a time column, an owner FK, no
+ * updates; see detectTimeSeries) are stored:
+ * - "documents": one document per row (default)
+ * - "buckets": one document per owner and time window, holding the rows
+ *   in an array with their count, min and max
+ * - "timeseries": a MongoDB time-series collection (timeField / metaField)
+ */
+export type TimeSeriesPattern = "documents" | "buckets" | "timeseries";
+
+/**
+ * Time a bucket covers. For time-series collections it sets the granularity:
+ * hour → "seconds", day → "minutes", month → "hours".
+ */
+export type TimeSeriesWindow = "hour" | "day" | "month";
+
+/**
+ * What to do with polymorphic type + id column pairs (commentable_type +
+ * commentable_id, or Django's content_type_id + object_id):
+ * - "columns": keep both as plain fields (default)
+ * - "typedReference": one { type, id } field naming the target collection
+ */
+export type PolymorphicPolicy = "columns" | "typedReference";
+
+/**
+ * What to do with table-per-type subtypes (car and truck sharing vehicle's key):
+ * - "collections": one collection per table (default)
+ * - "singleCollection": subtypes merged into the root's collection with a
+ *   discriminator field
+ */
+export type InheritancePolicy = "collections" | "singleCollection";
+
+export interface NoSqlMappingOptions {
+  junctionTables?: JunctionTablePolicy;
+  junctionItems?: JunctionItemStyle;
+  treePattern?: TreePattern;
+  timeSeries?: TimeSeriesPattern;
+  /** Default "day". */
+  timeSeriesWindow?: TimeSeriesWindow;
+  polymorphic?: PolymorphicPolicy;
+  inheritance?: InheritancePolicy;
+  /** Default "preserve". */
+  fieldNaming?: FieldNaming;
+  idStrategy?: IdStrategy;
+}
+
+/**
+ * What documents use as _id:
+ * - "primaryKey": the primary key: its value for a single-column key, an
+ *   embedded document of the key fields for a composite one. The key fields
+ *   move into _id, so references to the table hold its documents' _id; a
+ *   composite reference becomes one field holding the _id document.
+ * - "objectId" / "uuid": an ObjectId or UUID assigned when the document is
+ *   first inserted. The key stays a field to upsert on, and references to
+ *   the table hold the referenced document's _id (NoSqlField.refId), found
+ *   by key. References within a collection keep the key.
+ * Unset, MongoDB assigns ObjectIds and references hold the SQL key.
+ */
+export type IdStrategy = "primaryKey" | "objectId" | "uuid";
+
+/**
+ * How field names are derived from column names:
+ * - "preserve": the column name as is (default)
+ * - "camelCase": first_name → firstName, CustomerID → customerId
+ * - "PascalCase": first_name → FirstName
+ * - a map from column name, or "table.column", to field name; columns not
+ *   listed keep their name
+ * A renamed field keeps the column it is read from in NoSqlField.column.
+ */
+export type FieldNaming = "preserve" | "camelCase" | "PascalCase" | Record<string, string>;
+
+/**
+ * Hand-made mapping decisions, applied after the deterministic mapping (see
+ * applyMappingOverrides). Keyed by SQL table and column names, which stay
+ * stable when the analysis is run again; overrides that no longer match
+ * the schema are reported as OverrideWarnings.
+ */
+export interface MappingOverrides {
+  /** Per SQL table, e.g. "customer" or "billing.invoice". */
+  tables?: Record<string, TableOverride>;
+  relationships?: RelationshipOverride[];
+}
+
+export interface TableOverride {
+  /** Leave the table out: no collection, references to it become plain values. */
+  exclude?: boolean;
+  /** Collection name to use instead of the derived one. */
+  collection?: string;
+  /** Column(s) whose values become _id; several make an embedded _id document. */
+  id?: string | string[];
+  /** Per SQL column of the table. */
+  columns?: Record<string, ColumnOverride>;
+}
+
+export interface ColumnOverride {
+  exclude?: boolean;
+  /** Field name to use instead of the column name. */
+  name?: string;
+  type?: NoSqlFieldType;
 }
 
-export type EmbeddingStrategy = "full" | "partial" | "reference" | "hybrid";
+/**
+ * How one foreign key (table.column → parent) is stored, whatever rules or
+ * LLM recommendations say:
+ * - "embed": the parent document is embedded in each child document
+ * - "reference": the child keeps the key only; embedded copies are removed
+ * - "array": the child rows are embedded as an array in the parent document
+ */
+export interface RelationshipOverride {
+  table: string;
+  column: string;
+  strategy: "embed" | "reference" | "array";
+  /** Name of the embedded object or array field (default: derived from the names). */
+  field?: string;
+}
+
+/** An override that could not be applied, usually because the schema changed. */
+export interface OverrideWarning {
+  /** Where in the overrides file, e.g. tables.customer.columns.email. */
+  path: string;
+  message: string;
+}
+
+/**
+ * Which tables to analyze. Glob patterns (`*`, `?`, case-insensitive) match
+ * either the table name or schema.table; with no `include`, every table is
+ * included. See filterTables().
+ */
+export interface TableFilter {
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * A table whose rows form a tree through a single-column FK to its own key,
+ * e.g. employee.reports_to → employee.id. See detectHierarchies().
+ */
+export interface TableHierarchy {
+  table: string;
+  /** FK column holding the parent row's key. */
+  parentColumn: string;
+  /** Key column it references. */
+  keyColumn: string;
+  pattern: TreePattern;
+  /** Field computed for the ancestors / materializedPath patterns. */
+  field?: string;
+}
+
+/** An append-only table of timed rows per owner, e.g. sensor_reading per sensor. */
+export interface TimeSeriesTable {
+  table: string;
+  timeColumn: string;
+  /** Owner FK column and the table it references. */
+  ownerColumn: string;
+  ownerTable: string;
+  pattern: TimeSeriesPattern;
+  /** Why the table was taken for a time series. */
+  reason: string;
+}
+
+/**
+ * A pair of columns naming a row of one of several tables, with no FK:
+ * Rails commentable_type + commentable_id, or Django content_type_id +
+ * object_id. See detectPolymorphicAssociations().
+ */
+export interface PolymorphicAssociation {
+  table: string;
+  /** Association name, e.g. commentable. */
+  name: string;
+  typeColumn: string;
+  idColumn: string;
+  style: "rails" | "django";
+  /** Collections the type values are known to name. */
+  targets: string[];
+  policy: PolymorphicPolicy;
+}
+
+/** A root table and the table-per-type subtypes sharing its key. See detectSubtypeTables(). */
+export interface InheritanceHierarchy {
+  table: string;
+  subtypes: string[];
+  policy: InheritancePolicy;
+  /** Discriminator field, for "singleCollection". */
+  discriminator?: string;
+}
+
+/** A SQL table that has no collection of its own because it was folded into array fields. */
+export interface FoldedTable {
+  table: string;
+  /** `table` is the collection's own table, when named differently. */
+  into: Array<{ collection: string; field: string; table?: string }>;
+  reason: string;
+}
+
+/**
+ * - full / partial / hybrid / reference: how `field` (an FK of `collection`)
+ *   embeds the referenced parent document
+ * - array: embed all child rows of `childTable` in the parent `collection`
+ *   as the array `field`
+ * - subset: like array, capped by `limit` and ordered by `sort`
+ */
+export type EmbeddingStrategy =
+  | "full"
+  | "partial"
+  | "reference"
+  | "hybrid"
+  | "array"
+  | "subset";
 
 export interface EmbeddingRecommendation {
+  /** Collection name, which may differ from its table's (see NoSqlCollection.table). */
   collection: string;
   field: string;
   strategy: EmbeddingStrategy;
   reason: string;
   suggestedFields?: string[];
   confidence?: number;
+  /** Child table embedded by "array" and "subset". */
+  childTable?: string;
+  /** "subset" only: maximum number of embedded child rows. */
+  limit?: number;
+  /** "subset" only: which child rows to keep first. */
+  sort?: NoSqlSortSpec;
 }
 
 export interface OptimizationInsight {
@@ -106,11 +719,78 @@ export interface LLMRecommendations {
   embeddings: EmbeddingRecommendation[];
   insights: OptimizationInsight[];
   warnings?: string[];
+  /** What produced the recommendations; treated as "llm" when absent. */
+  engine?: "llm" | "rules";
+}
+
+/**
+ * A document that may outgrow MongoDB's limit, found from profiled statistics
+ * (see checkDocumentSizes):
+ * - documentLimit: an embedded array whose largest parent would exceed 16MB
+ * - unbounded: a one-to-many relation with so many children per parent that
+ *   it should not be embedded without a limit
+ */
+export interface DocumentSizeWarning {
+  kind: "documentLimit" | "unbounded";
+  /** Parent collection. */
+  collection: string;
+  /** Array field embedding the children, when there is one. */
+  field?: string;
+  childTable: string;
+  maxChildren: number;
+  p95Children: number;
+  /** Estimated size of the largest parent document with its embedded children. */
+  estimatedBytes?: number;
+  message: string;
+}
+
+/** A path of a sampled JSON column whose values had more than one type. */
+export interface JsonTypeConflict {
+  table: string;
+  column: string;
+  /** Column name plus member path, e.g. "settings.theme" or "tags[]". */
+  path: string;
+  types: Partial<Record<JsonValueType, number>>;
+  message: string;
+}
+
+/**
+ * A note from the DDL parser about input it skipped or could not read:
+ * - warning: something that may belong to the schema was lost, e.g. an
+ *   unparseable column or an unknown statement
+ * - info: a statement that was understood but is not modeled, e.g. a view
+ */
+export interface SqlDiagnostic {
+  severity: "warning" | "info";
+  message: string;
+  /** 1-based position in the DDL input. */
+  line: number;
+  column: number;
+  /** Start of the statement or table element concerned. */
+  excerpt?: string;
 }
 
 export interface AnalysisResult {
   sqlSchema: SqlSchema;
   nosqlSchema: NoSqlSchema;
   llmRecommendations?: LLMRecommendations;
+  /** Tables folded into other collections (e.g. junction tables); they have no collection. */
+  foldedTables?: FoldedTable[];
+  /** Self-referencing tables and the tree pattern they were mapped with. */
+  hierarchies?: TableHierarchy[];
+  /** Append-only event tables and how they were mapped; see mapping.timeSeries. */
+  timeSeries?: TimeSeriesTable[];
+  /** Polymorphic type + id column pairs; see mapping.polymorphic. */
+  polymorphicAssociations?: PolymorphicAssociation[];
+  /** Table-per-type hierarchies; see mapping.inheritance. */
+  inheritance?: InheritanceHierarchy[];
+  /** What the DDL parser skipped, when the schema came from a DDL file. */
+  diagnostics?: SqlDiagnostic[];
+  /** Documents at risk of growing too large; only with profiled statistics. */
+  sizeWarnings?: DocumentSizeWarning[];
+  /** JSON paths whose sampled values disagree on their type. */
+  jsonConflicts?: JsonTypeConflict[];
+  /** Overrides that did not match the schema; see MappingOverrides. */
+  overrideWarnings?: OverrideWarning[];
 }
 
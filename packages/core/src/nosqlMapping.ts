@@ -1,111 +1,406 @@
 import type {
   AnalysisResult,
+  FoldedTable,
+  InheritanceHierarchy,
   NoSqlCollection,
   NoSqlField,
+  NoSqlMappingOptions,
   NoSqlSchema,
+  NoSqlSortSpec,
+  PolymorphicAssociation,
+  SqlForeignKey,
   SqlSchema,
-  SqlTable,
+  TableHierarchy,
+  TimeSeriesTable,
 } from "./model";
+import { detectJunctionTables, inferCardinality, type JunctionTable } from "./cardinality";
+import { columnConstraints } from "./constraints";
+import { checkDocumentSizes } from "./documentSizes";
+import { applyFieldNaming, renameFoldedTables } from "./fieldNaming";
+import { addTreeFields } from "./hierarchies";
+import { applyIdStrategy } from "./idStrategy";
+import { foldSubtypeTables } from "./inheritance";
+import { findJsonConflicts } from "./jsonShapes";
+import { buildIndexes } from "./indexes";
+import { applyPolymorphicAssociations } from "./polymorphicAssociations";
+import { applyTimeSeries } from "./timeSeries";
+import { childArrayName, collectionNamesForTables, collectionTable } from "./tableNames";
+import { mapColumnToNoSqlType } from "./typeMapping";
 
 /**
  * Map a SqlSchema to a NoSqlSchema using simple, deterministic rules:
- * - Each table becomes a collection.
+ * - Each table becomes a collection, named after the table without its
+ *   schema (see collectionNamesForTables).
  * - Primary key columns are kept as fields; caller can choose to treat them as _id.
- * - Foreign key columns become "reference" fields.
- * - Other columns are mapped by type.
+ * - Foreign key columns become "reference" fields; every column of a
+ *   composite FK references the same collection.
+ * - Other columns are mapped by type; enum labels and simple CHECK rules
+ *   become field constraints.
+ * - Table and column comments become collection and field descriptions.
+ * - Keys, SQL indexes and FKs become a schema-level index list (buildIndexes).
+ * - Pure junction tables are folded into array fields when
+ *   options.junctionTables is not "keep".
+ * - Self-referencing tables get an ancestors array or materialized path
+ *   when options.treePattern asks for one (see addTreeFields).
+ * - Append-only event tables become bucket or time-series collections when
+ *   options.timeSeries asks for it (see applyTimeSeries).
+ * - Table-per-type subtypes are merged into their root collection and
+ *   polymorphic type + id pairs become typed references when
+ *   options.inheritance / options.polymorphic ask for it.
+ * - Documents take their _id from options.idStrategy (see applyIdStrategy).
+ * - Fields are renamed by options.fieldNaming (see applyFieldNaming).
  */
-export function mapToNoSql(sqlSchema: SqlSchema): NoSqlSchema {
+export function mapToNoSql(
+  sqlSchema: SqlSchema,
+  options: NoSqlMappingOptions = {},
+): NoSqlSchema {
+  return mapSqlSchema(sqlSchema, options).nosqlSchema;
+}
+
+function mapSqlSchema(
+  sqlSchema: SqlSchema,
+  options: NoSqlMappingOptions,
+): {
+  nosqlSchema: NoSqlSchema;
+  foldedTables: FoldedTable[];
+  hierarchies: TableHierarchy[];
+  timeSeries: TimeSeriesTable[];
+  inheritance: InheritanceHierarchy[];
+  polymorphicAssociations: PolymorphicAssociation[];
+} {
   const collections: NoSqlCollection[] = [];
 
   const tables = Array.isArray(sqlSchema.tables) ? sqlSchema.tables : [];
   const foreignKeys = Array.isArray(sqlSchema.foreignKeys) ? sqlSchema.foreignKeys : [];
+  const names = collectionNamesForTables(tables);
+  const collectionOf = (table: string): string => names.get(table) ?? table;
 
-  const fkByTableAndColumn = new Map<string, string>();
-  for (const fk of foreignKeys) {
-    fkByTableAndColumn.set(`${fk.fromTable}.${fk.fromColumn}`, fk.toTable);
+  // Single-column FKs are registered first so that a column shared by a
+  // composite FK (e.g. tenant_id) keeps its more specific direct reference.
+  const fkByTableAndColumn = new Map<string, SqlForeignKey>();
+  const orderedFks = [...foreignKeys].sort(
+    (a, b) => a.fromColumns.length - b.fromColumns.length,
+  );
+  for (const fk of orderedFks) {
+    for (const column of fk.fromColumns) {
+      const key = `${fk.fromTable}.${column}`;
+      if (!fkByTableAndColumn.has(key)) {
+        fkByTableAndColumn.set(key, fk);
+      }
+    }
   }
 
   for (const table of tables) {
     const fields: NoSqlField[] = table.columns.map((col) => {
       const fkKey = `${table.name}.${col.name}`;
-      const refCollection = fkByTableAndColumn.get(fkKey);
+      const fk = fkByTableAndColumn.get(fkKey);
 
-      if (refCollection) {
+      if (fk) {
         return {
           name: col.name,
           type: "reference",
           optional: col.nullable,
-          refCollection,
-          description: `Reference to ${refCollection}.${findPrimaryKey(
-            { tables, foreignKeys },
-            refCollection,
-          )}`,
+          refCollection: collectionOf(fk.toTable),
+          description: col.comment
+            ? `${col.comment} — ${describeReference(fk)}`
+            : describeReference(fk),
         };
       }
 
+      const constraints = columnConstraints(table.name, col, sqlSchema.checkConstraints);
       return {
         name: col.name,
-        type: mapColumnTypeToNoSql(col.type),
+        ...mapColumnToNoSqlType(col),
         optional: col.nullable,
+        ...(col.comment ? { description: col.comment } : {}),
+        ...(constraints ? { constraints } : {}),
       };
     });
 
+    const name = collectionOf(table.name);
     collections.push({
-      name: table.name,
+      name,
+      ...(name !== table.name ? { table: table.name } : {}),
       fields,
-      description: `Collection derived from table ${table.name}`,
+      description: table.comment ?? `Collection derived from table ${table.name}`,
     });
   }
 
-  return { collections };
+  const foldedTables = foldJunctionTables(collections, { tables, foreignKeys }, names, options);
+  const subtypes = foldSubtypeTables(collections, { tables, foreignKeys }, names, options.inheritance);
+  foldedTables.push(...subtypes.folded);
+  const foldedNames = new Set(foldedTables.map((f) => f.table));
+  const kept = collections.filter((c) => !foldedNames.has(collectionTable(c)));
+  const hierarchies = addTreeFields(kept, { tables, foreignKeys }, options.treePattern);
+  const timeSeries = applyTimeSeries(kept, { tables, foreignKeys }, options);
+  const polymorphicAssociations = applyPolymorphicAssociations(
+    kept,
+    { tables, foreignKeys },
+    options.polymorphic,
+  );
+  applyIdStrategy(kept, { tables, foreignKeys }, options.idStrategy);
+  const indexes = buildIndexes({ tables, foreignKeys, indexes: sqlSchema.indexes }, kept);
+
+  const mapped: NoSqlSchema = {
+    collections: kept,
+    ...(indexes.length > 0 ? { indexes } : {}),
+  };
+  const nosqlSchema = applyFieldNaming(mapped, options.fieldNaming);
+
+  return {
+    nosqlSchema,
+    foldedTables: renameFoldedTables(foldedTables, mapped, nosqlSchema),
+    hierarchies,
+    timeSeries,
+    inheritance: subtypes.hierarchies,
+    polymorphicAssociations,
+  };
 }
 
-function mapColumnTypeToNoSql(
-  type: SqlTable["columns"][number]["type"],
-): NoSqlField["type"] {
-  switch (type) {
-    case "integer":
-    case "bigint":
-    case "serial":
-    case "bigserial":
-    case "numeric":
-      return "number";
-    case "boolean":
-      return "boolean";
-    case "timestamp":
-    case "timestamptz":
-    case "date":
-      return "date";
-    case "json":
-    case "jsonb":
-      return "object";
-    case "text":
-    case "varchar":
-    case "uuid":
-      return "string";
-    default:
-      return "unknown";
+/**
+ * Add an array field for each folded junction table to the collection(s)
+ * chosen by the policy. Returns the tables that were folded; their own
+ * collections are dropped by the caller.
+ */
+function foldJunctionTables(
+  collections: NoSqlCollection[],
+  sqlSchema: SqlSchema,
+  names: Map<string, string>,
+  options: NoSqlMappingOptions,
+): FoldedTable[] {
+  const policy = options.junctionTables ?? "keep";
+  if (policy === "keep") return [];
+
+  const folded: FoldedTable[] = [];
+
+  for (const junction of detectJunctionTables(sqlSchema)) {
+    const [first, second] = junction.foreignKeys;
+    const sides: Array<[SqlForeignKey, SqlForeignKey]> =
+      policy === "both"
+        ? [
+            [first, second],
+            [second, first],
+          ]
+        : policy === "first"
+          ? [[first, second]]
+          : [[second, first]];
+
+    const into: FoldedTable["into"] = [];
+    for (const [own, other] of sides) {
+      const collection = collections.find((c) => collectionTable(c) === own.toTable);
+      if (!collection) continue;
+      const field = buildJunctionArrayField(junction, own, other, collection, sqlSchema, names, options);
+      collection.fields.push(field);
+      into.push({
+        collection: collection.name,
+        field: field.name,
+        ...(collection.table ? { table: collection.table } : {}),
+      });
+    }
+
+    // Neither referenced table is part of the schema: keep the junction collection.
+    if (into.length === 0) continue;
+
+    folded.push({
+      table: junction.table,
+      into,
+      reason: `${junction.table} is a many-to-many junction between ${first.toTable} and ${second.toTable}; its rows live in ${into
+        .map((i) => `${i.collection}.${i.field}`)
+        .join(" and ")}.`,
+    });
   }
+
+  return folded;
 }
 
-function findPrimaryKey(
-  schema: { tables: SqlSchema["tables"]; foreignKeys: SqlSchema["foreignKeys"] },
-  tableName: string,
-): string | string[] {
-  const table = schema.tables.find((t) => t.name === tableName);
-  if (!table) return "id";
-  if (!table.primaryKey.length) return "id";
-  return table.primaryKey.length === 1 ? table.primaryKey[0] : table.primaryKey;
+/**
+ * Build the array field that holds a junction table's rows on the `own`
+ * side, pointing at the `other` side, e.g. playlist.track_ids.
+ */
+function buildJunctionArrayField(
+  junction: JunctionTable,
+  own: SqlForeignKey,
+  other: SqlForeignKey,
+  collection: NoSqlCollection,
+  sqlSchema: SqlSchema,
+  names: Map<string, string>,
+  options: NoSqlMappingOptions,
+): NoSqlField {
+  const junctionTable = sqlSchema.tables.find((t) => t.name === junction.table);
+  const asIds = (options.junctionItems ?? "ids") === "ids" && other.fromColumns.length === 1;
+  const refCollection = names.get(other.toTable) ?? other.toTable;
+
+  const baseName =
+    other.fromColumns.length === 1
+      ? other.fromColumns[0].replace(/_?id$/i, "") || refCollection
+      : refCollection;
+  let name = `${baseName}_${asIds ? "ids" : "links"}`;
+  if (collection.fields.some((f) => f.name === name)) {
+    name = `${names.get(junction.table) ?? junction.table}_${name}`;
+  }
+
+  const description = `Folded from junction table ${junction.table} (${own.toTable} ↔ ${other.toTable})`;
+
+  if (asIds) {
+    return {
+      name,
+      type: "array",
+      optional: true,
+      description,
+      items: { type: "reference", refCollection },
+      source: {
+        table: junction.table,
+        joinColumns: own.fromColumns,
+        parentColumns: own.toColumns,
+        columns: other.fromColumns,
+      },
+    };
+  }
+
+  const columns = [...other.fromColumns, ...junction.extraColumns];
+  const itemFields = columns.map<NoSqlField>((columnName) => {
+    const col = junctionTable?.columns.find((c) => c.name === columnName);
+    if (other.fromColumns.includes(columnName)) {
+      return {
+        name: columnName,
+        type: "reference",
+        optional: col?.nullable ?? false,
+        refCollection,
+      };
+    }
+    return {
+      name: columnName,
+      ...(col ? mapColumnToNoSqlType(col) : { type: "unknown" }),
+      optional: col?.nullable ?? true,
+      ...(col?.comment ? { description: col.comment } : {}),
+    };
+  });
+
+  return {
+    name,
+    type: "array",
+    optional: true,
+    description,
+    items: { type: "object", fields: itemFields },
+    source: {
+      table: junction.table,
+      joinColumns: own.fromColumns,
+      parentColumns: own.toColumns,
+      columns,
+    },
+  };
+}
+
+function describeReference(fk: SqlForeignKey): string {
+  if (fk.fromColumns.length === 1) {
+    return `Reference to ${fk.toTable}.${fk.toColumn} (${fk.cardinality})`;
+  }
+  return `Part of composite reference (${fk.fromColumns.join(", ")}) to ${
+    fk.toTable
+  }(${fk.toColumns.join(", ")}) (${fk.cardinality})`;
+}
+
+/**
+ * Build an array field that embeds the child rows of `fk.fromTable` in the
+ * parent collection `fk.toTable`, e.g. invoice.lines from invoice_line.
+ * The child's own FK columns back to the parent are left out of the elements.
+ */
+export function buildChildArrayField(
+  sqlSchema: SqlSchema,
+  fk: SqlForeignKey,
+  options: {
+    name?: string;
+    fields?: string[];
+    sort?: NoSqlSortSpec;
+    limit?: number;
+  } = {},
+): NoSqlField {
+  const child = sqlSchema.tables.find((t) => t.name === fk.fromTable);
+  const names = collectionNamesForTables(sqlSchema.tables);
+  const collectionOf = (table: string): string => names.get(table) ?? table;
+  const childColumns = (child?.columns ?? []).filter(
+    (c) =>
+      !fk.fromColumns.includes(c.name) &&
+      (!options.fields || options.fields.length === 0 || options.fields.includes(c.name)),
+  );
+
+  const itemFields = childColumns.map<NoSqlField>((col) => {
+    const ref = sqlSchema.foreignKeys.find(
+      (other) => other.fromTable === fk.fromTable && other.fromColumns.includes(col.name),
+    );
+    const description = col.comment ? { description: col.comment } : {};
+    if (ref) {
+      return {
+        name: col.name,
+        type: "reference",
+        optional: col.nullable,
+        refCollection: collectionOf(ref.toTable),
+        ...description,
+      };
+    }
+    const constraints = columnConstraints(fk.fromTable, col, sqlSchema.checkConstraints);
+    return {
+      name: col.name,
+      ...mapColumnToNoSqlType(col),
+      optional: col.nullable,
+      ...description,
+      ...(constraints ? { constraints } : {}),
+    };
+  });
+
+  const capped = options.limit != null && options.limit > 0;
+
+  return {
+    name: options.name ?? childArrayName(collectionOf(fk.toTable), collectionOf(fk.fromTable)),
+    type: "array",
+    optional: true,
+    description: capped
+      ? `Up to ${options.limit} ${fk.fromTable} rows${
+          options.sort ? ` by ${options.sort.column} ${options.sort.direction}` : ""
+        } (subset pattern)`
+      : `Embedded ${fk.fromTable} rows`,
+    items: { type: "object", fields: itemFields },
+    source: {
+      table: fk.fromTable,
+      joinColumns: fk.fromColumns,
+      parentColumns: fk.toColumns,
+      columns: itemFields.map((f) => f.name),
+      ...(options.sort ? { sort: options.sort } : {}),
+      ...(capped ? { limit: options.limit } : {}),
+    },
+  };
 }
 
-export function buildAnalysisResult(sqlSchema: SqlSchema): AnalysisResult {
-  const normalized: SqlSchema = {
+/**
+ * Infer cardinality, map the schema (listing self-referencing hierarchies,
+ * time-series tables, table-per-type hierarchies and polymorphic
+ * associations with the pattern applied) and, when it was
+ * profiled, flag documents that could outgrow MongoDB's size limit. JSON paths whose
+ * sampled values disagree on their type are listed as jsonConflicts.
+ */
+export function buildAnalysisResult(
+  sqlSchema: SqlSchema,
+  options: NoSqlMappingOptions = {},
+): AnalysisResult {
+  const normalized: SqlSchema = inferCardinality({
+    ...sqlSchema,
     tables: Array.isArray(sqlSchema.tables) ? sqlSchema.tables : [],
     foreignKeys: Array.isArray(sqlSchema.foreignKeys) ? sqlSchema.foreignKeys : [],
-  };
+  });
+  const { nosqlSchema, foldedTables, hierarchies, timeSeries, inheritance, polymorphicAssociations } =
+    mapSqlSchema(normalized, options);
+  const sizeWarnings = checkDocumentSizes(normalized, nosqlSchema);
+  const jsonConflicts = findJsonConflicts(normalized);
   return {
     sqlSchema: normalized,
-    nosqlSchema: mapToNoSql(normalized),
+    nosqlSchema,
+    ...(foldedTables.length > 0 ? { foldedTables } : {}),
+    ...(hierarchies.length > 0 ? { hierarchies } : {}),
+    ...(timeSeries.length > 0 ? { timeSeries } : {}),
+    ...(inheritance.length > 0 ? { inheritance } : {}),
+    ...(polymorphicAssociations.length > 0 ? { polymorphicAssociations } : {}),
+    ...(sizeWarnings.length > 0 ? { sizeWarnings } : {}),
+    ...(jsonConflicts.length > 0 ? { jsonConflicts } : {}),
   };
 }
 
@@ -0,0 +1,522 @@
+import type {
+  AnalysisResult,
+  ColumnOverride,
+  FieldNaming,
+  MappingOverrides,
+  NoSqlCollection,
+  NoSqlField,
+  NoSqlFieldType,
+  NoSqlIndex,
+  OverrideWarning,
+  RelationshipOverride,
+  SqlSchema,
+  SqlTable,
+} from "./model";
+import { fieldNameFor, nameFields } from "./fieldNaming";
+import { referenceGeneratedIdsInArray } from "./idStrategy";
+import { buildChildArrayField } from "./nosqlMapping";
+import { childArrayName, collectionTable } from "./tableNames";
+import { mapColumnToNoSqlType } from "./typeMapping";
+
+// Each analysis maps the SQL schema from scratch, so decisions made by
+// editing its output are lost on the next run. Overrides live in a file of
+// their own, keyed by SQL table and column names, and are replayed on top of
+// every new mapping. Order matters: columns are excluded, retyped and
+// renamed first, so relationships embed the parent's final field names;
+// collections are renamed last, so every reference follows.
+
+const FIELD_TYPES = new Set<NoSqlFieldType>([
+  "string",
+  "number",
+  "decimal",
+  "binary",
+  "boolean",
+  "date",
+  "object",
+  "array",
+  "reference",
+  "unknown",
+]);
+
+/** Field changes of one collection, replayed on its index keys. */
+interface FieldChanges {
+  renamed: Map<string, string>;
+  removed: Set<string>;
+}
+
+/**
+ * Apply `overrides` to a mapped analysis. The input is not modified; the
+ * result lists every override that did not match under `overrideWarnings`.
+ * Fields the overrides add are named by `fieldNaming`, like the mapping's.
+ */
+export function applyMappingOverrides(
+  analysis: AnalysisResult,
+  overrides: MappingOverrides,
+  fieldNaming?: FieldNaming,
+): AnalysisResult {
+  const { sqlSchema } = analysis;
+  const warnings: OverrideWarning[] = [];
+  const warn = (path: string, message: string): void => {
+    warnings.push({ path, message });
+  };
+
+  let collections = analysis.nosqlSchema.collections.map((c) => ({
+    ...c,
+    fields: cloneFields(c.fields),
+  }));
+  const byTable = (table: string): NoSqlCollection | undefined =>
+    collections.find((c) => collectionTable(c) === table);
+  const changes = new Map<string, FieldChanges>();
+  const excluded = new Set<string>();
+  const excludedTables = new Set<string>();
+  const tableOverrides = Object.entries(overrides.tables ?? {});
+
+  for (const [table, override] of tableOverrides) {
+    const path = `tables.${table}`;
+    const sqlTable = sqlSchema.tables.find((t) => t.name === table);
+    if (!sqlTable) {
+      warn(path, `No table ${table} in the schema.`);
+      continue;
+    }
+    const collection = byTable(table);
+    if (!collection) {
+      const folded = analysis.foldedTables?.find((f) => f.table === table);
+      warn(
+        path,
+        folded
+          ? `${table} has no collection of its own (folded into ${folded.into.map((i) => i.collection).join(", ")}).`
+          : `${table} has no collection.`,
+      );
+      continue;
+    }
+    if (override.exclude) {
+      excluded.add(collection.name);
+      excludedTables.add(table);
+      continue;
+    }
+
+    const idColumns = override.id == null ? undefined : Array.isArray(override.id) ? override.id : [override.id];
+    const fieldChanges: FieldChanges = { renamed: new Map(), removed: new Set() };
+    changes.set(collection.name, fieldChanges);
+    for (const [column, columnOverride] of Object.entries(override.columns ?? {})) {
+      applyColumnOverride(collection, sqlTable, column, columnOverride, {
+        idColumns,
+        changes: fieldChanges,
+        path: `${path}.columns.${column}`,
+        warn,
+      });
+    }
+
+    if (idColumns) {
+      const missing = idColumns.filter((c) => !sqlTable.columns.some((col) => col.name === c));
+      if (missing.length > 0) {
+        warn(`${path}.id`, `No column ${missing.join(", ")} in ${table}.`);
+      } else if (collection.timeSeries) {
+        warn(`${path}.id`, `${collection.name} holds ${collection.timeSeries.pattern}; its documents keep a generated _id.`);
+      } else if (collection.idStrategy === "primaryKey") {
+        warn(`${path}.id`, `${collection.name} takes its _id from the primary key (mapping.idStrategy).`);
+      } else {
+        // Chosen columns replace a generated _id; references still find it by key.
+        collection.idColumns = idColumns;
+        delete collection.idStrategy;
+      }
+    }
+  }
+
+  if (excluded.size > 0) {
+    collections = collections.filter((c) => !excluded.has(c.name));
+    for (const collection of collections) {
+      dropReferences(collection.fields, excluded, sqlSchema, sqlSchema.tables.find((t) => t.name === collectionTable(collection)));
+    }
+  }
+
+  // Parents embedded by recommendations follow the parent's renames.
+  for (const fk of sqlSchema.foreignKeys) {
+    const child = byTable(fk.fromTable);
+    const parent = byTable(fk.toTable);
+    if (!child || !parent || fk.fromColumns.length !== 1) continue;
+    const parentChanges = changes.get(parent.name);
+    const name = fieldNameFor(embeddedName(fk.fromColumn), fieldNaming);
+    for (const field of child.fields) {
+      const embedsParent = field.refCollection
+        ? field.refCollection === parent.name && isEmbeddedParent(field, field.name)
+        : isEmbeddedParent(field, name);
+      if (!embedsParent) continue;
+      field.refCollection = parent.name;
+      if (parentChanges && field.fields) {
+        field.fields = field.fields
+          .filter((f) => !parentChanges.removed.has(f.name))
+          .map((f) => (parentChanges.renamed.has(f.name) ? { ...f, name: parentChanges.renamed.get(f.name)! } : f));
+      }
+    }
+  }
+
+  // Names collections will have once renamed, for default array field names.
+  const finalName = (collection: NoSqlCollection): string =>
+    overrides.tables?.[collectionTable(collection)]?.collection ?? collection.name;
+  (overrides.relationships ?? []).forEach((relationship, i) => {
+    applyRelationshipOverride(relationship, sqlSchema, collections, byTable, finalName, fieldNaming, `relationships[${i}]`, warn);
+  });
+
+  // Arrays of a table's rows (folded junctions, embedded children) follow its overrides too.
+  for (const collection of collections) {
+    collection.fields = collection.fields.filter((f) => !f.source || !excludedTables.has(f.source.table));
+    for (const field of collection.fields) {
+      const columns = field.source && overrides.tables?.[field.source.table]?.columns;
+      if (!columns || !field.items?.fields) continue;
+      field.items = { ...field.items, fields: field.items.fields.flatMap((item) => overrideItem(item, columns)) };
+    }
+  }
+
+  const renamedCollections = new Map<string, string>();
+  for (const [table, override] of tableOverrides) {
+    const collection = byTable(table);
+    const name = override.collection;
+    if (!collection || excluded.has(collection.name) || !name || name === collection.name) continue;
+    if (collections.some((c) => c.name === name)) {
+      warn(`tables.${table}.collection`, `Collection ${name} already exists; ${collection.name} keeps its name.`);
+      continue;
+    }
+    renamedCollections.set(collection.name, name);
+    changes.set(name, changes.get(collection.name) ?? { renamed: new Map(), removed: new Set() });
+    collection.table = table;
+    collection.name = name;
+    if (collection.table === name) delete collection.table;
+  }
+  const renameCollection = (name: string): string => renamedCollections.get(name) ?? name;
+  if (renamedCollections.size > 0) {
+    for (const collection of collections) renameReferences(collection.fields, renameCollection);
+  }
+
+  const indexes = (analysis.nosqlSchema.indexes ?? [])
+    .filter((index) => !excluded.has(index.collection))
+    .flatMap((index) => {
+      const collection = renameCollection(index.collection);
+      const change = changes.get(collection);
+      return replayOnIndex({ ...index, collection }, change);
+    })
+    .map((index) => retypeKeyDocuments(index, collections.find((c) => c.name === index.collection)));
+
+  const foldedTables = analysis.foldedTables?.map((folded) => ({
+    ...folded,
+    into: folded.into
+      .filter((into) => !excluded.has(into.collection))
+      .map((into) => ({ ...into, collection: renameCollection(into.collection) })),
+  }));
+  const polymorphicAssociations = analysis.polymorphicAssociations?.map((a) => ({
+    ...a,
+    targets: a.targets.map(renameCollection),
+  }));
+
+  return {
+    ...analysis,
+    nosqlSchema: { ...analysis.nosqlSchema, collections, indexes },
+    ...(foldedTables ? { foldedTables } : {}),
+    ...(polymorphicAssociations ? { polymorphicAssociations } : {}),
+    ...(warnings.length > 0 ? { overrideWarnings: warnings } : {}),
+  };
+}
+
+function applyColumnOverride(
+  collection: NoSqlCollection,
+  sqlTable: SqlTable,
+  column: string,
+  override: ColumnOverride,
+  context: {
+    /** Columns of the _id override, when there is one. */
+    idColumns?: string[];
+    changes: FieldChanges;
+    path: string;
+    warn: (path: string, message: string) => void;
+  },
+): void {
+  const { idColumns, changes, path, warn } = context;
+  const field = collection.fields.find((f) => (f.column ?? f.name) === column);
+  if (!field) {
+    const reference = collection.fields.find((f) => f.refColumns?.includes(column));
+    warn(
+      path,
+      reference
+        ? `${sqlTable.name}.${column} is part of the composite reference ${collection.name}.${reference.name} (mapping.idStrategy).`
+        : sqlTable.columns.some((c) => c.name === column)
+          ? `${sqlTable.name}.${column} is not a field of ${collection.name}.`
+          : `No column ${column} in ${sqlTable.name}.`,
+    );
+    return;
+  }
+  // Bucket and time-series documents are built around their time and owner fields.
+  if (collection.timeSeries) {
+    warn(path, `${collection.name} holds ${collection.timeSeries.pattern}; its fields cannot be overridden.`);
+    return;
+  }
+
+  if (override.exclude) {
+    // Migrations upsert on the primary key, unless _id comes from other columns.
+    if ((idColumns ?? sqlTable.primaryKey).includes(column)) {
+      warn(path, `${column} is part of the key of ${sqlTable.name} that migrations upsert on; it is kept.`);
+      return;
+    }
+    collection.fields = collection.fields.filter((f) => f !== field);
+    changes.removed.add(field.name);
+    return;
+  }
+
+  if (override.type) {
+    if (!FIELD_TYPES.has(override.type)) {
+      warn(`${path}.type`, `Unknown field type ${override.type}.`);
+    } else {
+      field.type = override.type;
+      if (override.type !== "reference") {
+        delete field.refCollection;
+        delete field.refId;
+      }
+    }
+  }
+
+  if (override.name && override.name !== field.name) {
+    if (field.name === "_id") {
+      warn(`${path}.name`, `${column} is the _id of ${collection.name} (mapping.idStrategy).`);
+      return;
+    }
+    if (collection.fields.some((f) => f.name === override.name)) {
+      warn(`${path}.name`, `${collection.name} already has a field ${override.name}.`);
+      return;
+    }
+    changes.renamed.set(field.name, override.name);
+    field.column = column;
+    field.name = override.name;
+  }
+}
+
+function applyRelationshipOverride(
+  relationship: RelationshipOverride,
+  sqlSchema: SqlSchema,
+  collections: NoSqlCollection[],
+  byTable: (table: string) => NoSqlCollection | undefined,
+  finalName: (collection: NoSqlCollection) => string,
+  fieldNaming: FieldNaming | undefined,
+  path: string,
+  warn: (path: string, message: string) => void,
+): void {
+  const fk = sqlSchema.foreignKeys.find(
+    (candidate) =>
+      candidate.fromTable === relationship.table &&
+      candidate.fromColumns.length === 1 &&
+      candidate.fromColumn === relationship.column,
+  );
+  if (!fk) {
+    warn(path, `No single-column foreign key ${relationship.table}.${relationship.column}.`);
+    return;
+  }
+  const child = byTable(fk.fromTable);
+  const parent = byTable(fk.toTable);
+  if (!child || !parent) {
+    warn(path, `${child ? fk.toTable : fk.fromTable} has no collection.`);
+    return;
+  }
+
+  const derivedName = fieldNameFor(embeddedName(relationship.column), fieldNaming);
+  const embedName = relationship.field ?? derivedName;
+  const embeds = (f: NoSqlField): boolean => isEmbeddedParent(f, embedName);
+  const gathers = (f: NoSqlField): boolean =>
+    f.type === "array" &&
+    f.source?.table === fk.fromTable &&
+    f.source.joinColumns.length === 1 &&
+    f.source.joinColumns[0] === fk.fromColumn;
+
+  if (relationship.strategy === "reference") {
+    child.fields = child.fields.filter((f) => !embeds(f));
+    parent.fields = parent.fields.filter((f) => !gathers(f));
+    if (!child.fields.some((f) => (f.column ?? f.name) === relationship.column)) {
+      warn(path, `${relationship.table}.${relationship.column} is not a field of ${child.name}.`);
+    }
+    return;
+  }
+
+  if (relationship.strategy === "embed") {
+    // Only the chosen name embeds the parent; a recommendation's copy goes.
+    if (embedName !== derivedName) child.fields = child.fields.filter((f) => !isEmbeddedParent(f, derivedName));
+    if (child.fields.some(embeds)) return;
+    if (child.fields.some((f) => f.name === embedName)) {
+      warn(path, `${child.name} already has a field ${embedName}; set "field" to embed under another name.`);
+      return;
+    }
+    const column = sqlSchema.tables
+      .find((t) => t.name === fk.fromTable)
+      ?.columns.find((c) => c.name === fk.fromColumn);
+    child.fields.push({
+      name: embedName,
+      type: "object",
+      optional: column?.nullable ?? true,
+      description: `Embedded ${parent.name} document (${relationship.table}.${relationship.column})`,
+      refCollection: parent.name,
+      fields: parent.fields.map((f) => ({ ...f, optional: true })),
+    });
+    return;
+  }
+
+  if (relationship.strategy === "array") {
+    if (parent.fields.some(gathers)) return;
+    const name =
+      relationship.field ?? fieldNameFor(childArrayName(finalName(parent), finalName(child)), fieldNaming);
+    if (parent.fields.some((f) => f.name === name)) {
+      warn(path, `${parent.name} already has a field ${name}; set "field" to embed under another name.`);
+      return;
+    }
+    const field = buildChildArrayField(sqlSchema, fk, { name });
+    if (field.items?.fields) {
+      field.items = { ...field.items, fields: nameFields(field.items.fields, fieldNaming, fk.fromTable) };
+    }
+    referenceGeneratedIdsInArray(field, parent, collections, sqlSchema);
+    parent.fields.push(field);
+    return;
+  }
+
+  warn(`${path}.strategy`, `Unknown strategy ${String(relationship.strategy)}; use embed, reference or array.`);
+}
+
+/** An array element field with its column's override applied; none when excluded. */
+function overrideItem(item: NoSqlField, columns: Record<string, ColumnOverride>): NoSqlField[] {
+  const column = item.column ?? item.name;
+  const override = columns[column];
+  if (!override) return [item];
+  if (override.exclude) return [];
+  return [
+    {
+      ...item,
+      ...(override.type && FIELD_TYPES.has(override.type) ? { type: override.type } : {}),
+      ...(override.name ? { name: override.name, column } : {}),
+    },
+  ];
+}
+
+/** Whether `field` is an embedded document named `name`, as opposed to a JSON column or typed reference. */
+function isEmbeddedParent(field: NoSqlField, name: string): boolean {
+  return field.name === name && field.type === "object" && field.sampledValues == null && !field.polymorphic;
+}
+
+/** Embedded parent field named after its FK column: customer_id → customer. */
+function embeddedName(column: string): string {
+  return column.replace(/_id$/i, "").replace(/Id$/, "") || `${column}_obj`;
+}
+
+/** References to excluded collections become plain values of the column's type. */
+function dropReferences(
+  fields: NoSqlField[],
+  excluded: Set<string>,
+  sqlSchema: SqlSchema,
+  sqlTable: SqlTable | undefined,
+): void {
+  for (const field of fields) {
+    if (field.refCollection && excluded.has(field.refCollection)) {
+      const column = sqlTable?.columns.find((c) => c.name === (field.column ?? field.name));
+      delete field.refCollection;
+      delete field.refId;
+      if (field.refColumns) {
+        // A composite reference keeps the key values, as a document of its columns.
+        field.type = "object";
+        field.fields =
+          field.fields ??
+          field.refColumns.map((name) => {
+            const keyColumn = sqlTable?.columns.find((c) => c.name === name);
+            return { name, type: keyColumn ? mapColumnToNoSqlType(keyColumn).type : "unknown", optional: false };
+          });
+      } else if (field.type === "reference") {
+        field.type = column ? mapColumnToNoSqlType(column).type : "unknown";
+      }
+    }
+    if (field.items?.refCollection && excluded.has(field.items.refCollection)) {
+      const source = field.source;
+      const column = sqlSchema.tables
+        .find((t) => t.name === source?.table)
+        ?.columns.find((c) => c.name === source?.columns[0]);
+      const { refCollection: _dropped, refId: _refId, ...items } = field.items;
+      field.items = { ...items, type: column ? mapColumnToNoSqlType(column).type : "unknown" };
+    }
+    if (field.fields) dropReferences(field.fields, excluded, sqlSchema, undefined);
+    if (field.items?.fields) dropReferences(field.items.fields, excluded, sqlSchema, undefined);
+  }
+}
+
+function renameReferences(fields: NoSqlField[], rename: (name: string) => string): void {
+  for (const field of fields) {
+    if (field.refCollection) field.refCollection = rename(field.refCollection);
+    if (field.items?.refCollection) {
+      field.items = { ...field.items, refCollection: rename(field.items.refCollection) };
+    }
+    if (field.polymorphic) {
+      field.polymorphic = {
+        ...field.polymorphic,
+        targets: field.polymorphic.targets.map((t) => ({ ...t, collection: rename(t.collection) })),
+      };
+    }
+    if (field.fields) renameReferences(field.fields, rename);
+    if (field.items?.fields) renameReferences(field.items.fields, rename);
+  }
+}
+
+/**
+ * Follow renamed fields in an index's keys and partial filter; an index on
+ * an excluded field is dropped.
+ */
+/**
+ * Partial filters on composite references that dropReferences() turned
+ * into documents of their key values: `$type` is now "object".
+ */
+function retypeKeyDocuments(index: NoSqlIndex, collection: NoSqlCollection | undefined): NoSqlIndex {
+  const filter = index.partialFilterExpression;
+  if (!filter || !collection) return index;
+  const isKeyDocument = (name: string): boolean =>
+    collection.fields.some((f) => f.name === name && f.refColumns != null && f.type === "object");
+  const retype = (part: Record<string, unknown>): Record<string, unknown> =>
+    Object.fromEntries(
+      Object.entries(part).map(([key, value]) =>
+        key === "$and" && Array.isArray(value)
+          ? [key, value.map((p) => retype(p as Record<string, unknown>))]
+          : [key, isKeyDocument(key) && typeof value === "object" && value != null && "$type" in value ? { $type: "object" } : value],
+      ),
+    );
+  return { ...index, partialFilterExpression: retype(filter) };
+}
+
+function replayOnIndex(index: NoSqlIndex, changes: FieldChanges | undefined): NoSqlIndex[] {
+  if (!changes) return [index];
+  const top = (path: string): string => path.split(".")[0];
+  if (index.keys.some((k) => changes.removed.has(top(k.field)))) return [];
+  const rename = (path: string): string => {
+    const renamed = changes.renamed.get(top(path));
+    return renamed ? [renamed, ...path.split(".").slice(1)].join(".") : path;
+  };
+  const renameFilter = (filter: Record<string, unknown>): Record<string, unknown> =>
+    Object.fromEntries(
+      Object.entries(filter).map(([key, value]) =>
+        key === "$and" && Array.isArray(value)
+          ? [key, value.map((part) => renameFilter(part as Record<string, unknown>))]
+          : [rename(key), value],
+      ),
+    );
+  return [
+    {
+      ...index,
+      keys: index.keys.map((k) => ({ ...k, field: rename(k.field) })),
+      ...(index.partialFilterExpression
+        ? { partialFilterExpression: renameFilter(index.partialFilterExpression) }
+        : {}),
+    },
+  ];
+}
+
+function cloneFields(fields: NoSqlField[]): NoSqlField[] {
+  return fields.map((field) => ({
+    ...field,
+    ...(field.fields ? { fields: cloneFields(field.fields) } : {}),
+    ...(field.items
+      ? {
+          items: {
+            ...field.items,
+            ...(field.items.fields ? { fields: cloneFields(field.items.fields) } : {}),
+          },
+        }
+      : {}),
+  }));
+}
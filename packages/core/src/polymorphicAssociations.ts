@@ -0,0 +1,167 @@
+import type {
+  NoSqlCollection,
+  NoSqlField,
+  NoSqlPolymorphicReference,
+  PolymorphicAssociation,
+  PolymorphicPolicy,
+  SqlSchema,
+} from "./model";
+import { bareTableName, collectionTable } from "./tableNames";
+
+// A polymorphic association points at rows of several tables through a
+// type column naming the table and an id column, with no FK:
+// - Rails: commentable_type ('Post', 'Photo') + commentable_id
+// - Django: content_type_id (FK to django_content_type) + object_id
+// By default both columns stay plain fields. With mapping.polymorphic =
+// "typedReference" they become one { type, id } field whose type is the
+// target collection's name.
+
+/** Column types that can hold a Rails class name. */
+const TYPE_NAME_COLUMNS = new Set(["text", "varchar", "char", "enum"]);
+
+export interface PolymorphicColumns {
+  table: string;
+  name: string;
+  typeColumn: string;
+  idColumn: string;
+  style: PolymorphicAssociation["style"];
+  /** Django: the content type table typeColumn references. */
+  typeTable?: string;
+}
+
+/** Type + id column pairs of every table; see the patterns above. */
+export function detectPolymorphicAssociations(sqlSchema: SqlSchema): PolymorphicColumns[] {
+  const found: PolymorphicColumns[] = [];
+
+  for (const table of sqlSchema.tables) {
+    const fks = sqlSchema.foreignKeys.filter((fk) => fk.fromTable === table.name);
+    const hasColumn = (name: string): boolean => table.columns.some((c) => c.name === name);
+    const hasFk = (name: string): boolean => fks.some((fk) => fk.fromColumns.includes(name));
+
+    for (const col of table.columns) {
+      const rails = /^(.+)_type$/.exec(col.name);
+      if (rails && TYPE_NAME_COLUMNS.has(col.type)) {
+        const idColumn = `${rails[1]}_id`;
+        if (hasColumn(idColumn) && !hasFk(idColumn)) {
+          found.push({ table: table.name, name: rails[1], typeColumn: col.name, idColumn, style: "rails" });
+        }
+        continue;
+      }
+
+      const django = /^(.*?)content_type_id$/.exec(col.name);
+      if (django) {
+        const idColumn = `${django[1]}object_id`;
+        const typeFk = fks.find(
+          (fk) => fk.fromColumns.length === 1 && fk.fromColumn === col.name,
+        );
+        const typeTable = sqlSchema.tables.find((t) => t.name === typeFk?.toTable);
+        if (
+          typeTable &&
+          bareTableName(typeTable).endsWith("content_type") &&
+          hasColumn(idColumn) &&
+          !hasFk(idColumn)
+        ) {
+          found.push({
+            table: table.name,
+            name: django[1].replace(/_$/, "") || "content_object",
+            typeColumn: col.name,
+            idColumn,
+            style: "django",
+            typeTable: typeTable.name,
+          });
+        }
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * List every polymorphic association and, for "typedReference", replace its
+ * two fields with one { type, id } field at the type column's position.
+ */
+export function applyPolymorphicAssociations(
+  collections: NoSqlCollection[],
+  sqlSchema: SqlSchema,
+  policy: PolymorphicPolicy = "columns",
+): PolymorphicAssociation[] {
+  const associations: PolymorphicAssociation[] = [];
+
+  for (const pair of detectPolymorphicAssociations(sqlSchema)) {
+    const collection = collections.find((c) => collectionTable(c) === pair.table);
+    if (!collection) continue;
+    const typeField = collection.fields.find((f) => f.name === pair.typeColumn);
+    const idField = collection.fields.find((f) => f.name === pair.idColumn);
+    if (!typeField || !idField) continue;
+
+    // Allowed type values name the targets; otherwise any collection may be
+    // one, under the class name Rails derives from its table.
+    const allowed = typeField.constraints?.allowedValues?.map(String);
+    const targets =
+      pair.style === "django"
+        ? []
+        : allowed
+          ? allowed.flatMap((value) => {
+              const target = collections.find((c) => railsClassName(c.name) === railsClassName(value));
+              return target ? [{ value, collection: target.name }] : [];
+            })
+          : collections.map((c) => ({ value: railsClassName(c.name), collection: c.name }));
+
+    associations.push({
+      table: pair.table,
+      name: pair.name,
+      typeColumn: pair.typeColumn,
+      idColumn: pair.idColumn,
+      style: pair.style,
+      targets: allowed ? targets.map((t) => t.collection) : [],
+      policy,
+    });
+    if (policy !== "typedReference") continue;
+
+    const others = collection.fields.filter((f) => f !== typeField && f !== idField);
+    const name = others.some((f) => f.name === pair.name) ? `${pair.name}_ref` : pair.name;
+    const polymorphic: NoSqlPolymorphicReference = {
+      typeColumn: pair.typeColumn,
+      idColumn: pair.idColumn,
+      targets,
+      ...(pair.typeTable ? { typeTable: pair.typeTable } : {}),
+    };
+    const single = allowed && targets.length === 1 ? targets[0].collection : undefined;
+    const field: NoSqlField = {
+      name,
+      type: "object",
+      optional: idField.optional,
+      description: `Typed reference from ${pair.typeColumn} + ${pair.idColumn}${
+        allowed && targets.length > 0 ? `: one of ${targets.map((t) => t.collection).join(", ")}` : ""
+      }`,
+      fields: [
+        { name: "type", type: "string", optional: false, description: "Collection the id belongs to" },
+        { name: "id", type: "reference", optional: false, ...(single ? { refCollection: single } : {}) },
+      ],
+      polymorphic,
+    };
+    collection.fields = collection.fields.flatMap((f) =>
+      f === typeField ? [field] : f === idField ? [] : [f],
+    );
+  }
+
+  return associations;
+}
+
+/**
+ * The class name Rails stores for a table or model: blog_posts → BlogPost,
+ * categories → Category, Admin::User → User (namespaces dropped).
+ */
+function railsClassName(name: string): string {
+  const last = name.split("::").pop() ?? name;
+  const snake = last.replace(/([a-z\d])([A-Z])/g, "$1_$2").toLowerCase();
+  const singular = snake
+    .replace(/ies$/, "y")
+    .replace(/(s|x|z|ch|sh)es$/, "$1")
+    .replace(/([^s])s$/, "$1");
+  return singular
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+}
@@ -0,0 +1,400 @@
+import type { SqlColumn, SqlColumnType, SqlDialect, SqlTable } from "./model";
+import type { SqlTokenizerOptions } from "./sqlTokenizer";
+
+/**
+ * Per-dialect knobs for the DDL parser. The statement structure (CREATE TABLE,
+ * ALTER TABLE ... ADD CONSTRAINT) is shared; types and a few quirks are not.
+ */
+export interface DialectSpec {
+  name: SqlDialect;
+  /** Map a raw column type as written in DDL, e.g. "tinyint(1)", to SqlColumnType. */
+  mapType(rawType: string): SqlColumnType;
+  /** Whether `type[]` / `type ARRAY` declare array columns (Postgres). */
+  arrays?: boolean;
+  /**
+   * Whether `col type REFERENCES other(col)` declares a foreign key.
+   * MySQL parses but silently ignores inline references.
+   */
+  inlineReferences: boolean;
+  /** Lexical rules of the dialect: quoting, comments, escapes. */
+  tokens?: SqlTokenizerOptions;
+  /**
+   * Rewrite dialect-only syntax before statements are split, e.g. T-SQL `GO`
+   * batches. Must keep offsets (same length, same line breaks) so
+   * diagnostics point into the original input.
+   */
+  preprocess?(sql: string): string;
+  /** Whether a column may omit its type (SQLite). */
+  untypedColumns?: boolean;
+  /**
+   * Adjust a parsed table once its keys are final.
+   * @param rawTypes column name → type as written in the DDL
+   * @param tableOptions text after the closing parenthesis, e.g. "WITHOUT ROWID"
+   */
+  finalizeTable?(table: SqlTable, rawTypes: Map<string, string>, tableOptions: string): void;
+}
+
+const POSTGRES_TYPE_MAP: Record<string, SqlColumnType> = {
+  smallint: "smallint",
+  int2: "smallint",
+  integer: "integer",
+  int: "integer",
+  int4: "integer",
+  bigint: "bigint",
+  int8: "bigint",
+  smallserial: "serial",
+  serial2: "serial",
+  serial: "serial",
+  serial4: "serial",
+  bigserial: "bigserial",
+  serial8: "bigserial",
+  numeric: "numeric",
+  decimal: "numeric",
+  real: "real",
+  float4: "real",
+  "double precision": "double precision",
+  float8: "double precision",
+  float: "double precision",
+  money: "money",
+  char: "char",
+  character: "char",
+  bpchar: "char",
+  text: "text",
+  citext: "text",
+  xml: "text",
+  varchar: "varchar",
+  "character varying": "varchar",
+  bytea: "bytea",
+  boolean: "boolean",
+  bool: "boolean",
+  timestamp: "timestamp",
+  "timestamp without time zone": "timestamp",
+  timestamptz: "timestamptz",
+  "timestamp with time zone": "timestamptz",
+  date: "date",
+  time: "time",
+  "time without time zone": "time",
+  timetz: "time",
+  "time with time zone": "time",
+  interval: "interval",
+  inet: "inet",
+  cidr: "inet",
+  json: "json",
+  jsonb: "jsonb",
+  uuid: "uuid",
+};
+
+const MYSQL_TYPE_MAP: Record<string, SqlColumnType> = {
+  tinyint: "smallint",
+  smallint: "smallint",
+  mediumint: "integer",
+  int: "integer",
+  integer: "integer",
+  year: "integer",
+  bigint: "bigint",
+  decimal: "numeric",
+  dec: "numeric",
+  numeric: "numeric",
+  fixed: "numeric",
+  float: "real",
+  double: "double precision",
+  "double precision": "double precision",
+  // REAL is a synonym for DOUBLE unless the REAL_AS_FLOAT SQL mode is set.
+  real: "double precision",
+  char: "char",
+  varchar: "varchar",
+  enum: "enum",
+  // SET holds any combination of its members, so it stays a plain string.
+  set: "varchar",
+  tinytext: "text",
+  text: "text",
+  mediumtext: "text",
+  longtext: "text",
+  binary: "bytea",
+  varbinary: "bytea",
+  tinyblob: "bytea",
+  blob: "bytea",
+  mediumblob: "bytea",
+  longblob: "bytea",
+  bool: "boolean",
+  boolean: "boolean",
+  // DATETIME is a wall-clock value; TIMESTAMP is stored in UTC and converted
+  // to the session time zone, which is what timestamptz models.
+  datetime: "timestamp",
+  timestamp: "timestamptz",
+  date: "date",
+  time: "time",
+  json: "json",
+};
+
+const MSSQL_TYPE_MAP: Record<string, SqlColumnType> = {
+  tinyint: "smallint",
+  smallint: "smallint",
+  int: "integer",
+  bigint: "bigint",
+  decimal: "numeric",
+  numeric: "numeric",
+  money: "money",
+  smallmoney: "money",
+  // FLOAT defaults to FLOAT(53), i.e. double precision.
+  float: "double precision",
+  real: "real",
+  bit: "boolean",
+  char: "char",
+  varchar: "varchar",
+  nchar: "char",
+  nvarchar: "varchar",
+  text: "text",
+  ntext: "text",
+  xml: "text",
+  binary: "bytea",
+  varbinary: "bytea",
+  image: "bytea",
+  uniqueidentifier: "uuid",
+  date: "date",
+  time: "time",
+  datetime: "timestamp",
+  datetime2: "timestamp",
+  smalldatetime: "timestamp",
+  datetimeoffset: "timestamptz",
+};
+
+/** Lower-case, collapse whitespace and drop type arguments: "DECIMAL(10, 2)" → "decimal". */
+export function baseTypeName(rawType: string): string {
+  return rawType
+    .replace(/[[\]"`]/g, "")
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const postgres: DialectSpec = {
+  name: "postgres",
+  mapType: (rawType) => {
+    const base = baseTypeName(rawType);
+    // "interval day to second" and friends restrict the fields, not the type.
+    if (base.startsWith("interval")) return "interval";
+    return POSTGRES_TYPE_MAP[base] ?? "unknown";
+  },
+  arrays: true,
+  tokens: { dollarQuotes: true, nestedComments: true },
+  inlineReferences: true,
+};
+
+const mysql: DialectSpec = {
+  name: "mysql",
+  mapType: (rawType) => {
+    const t = rawType.toLowerCase().replace(/\s+/g, "");
+    // tinyint(1) and bit(1) are MySQL's conventional booleans.
+    if (/^(tinyint|bit)\(1\)/.test(t)) return "boolean";
+    // information_schema.COLUMNS.COLUMN_TYPE keeps attributes such as "int unsigned".
+    const base = baseTypeName(rawType).replace(/(?:\s+(?:unsigned|signed|zerofill))+$/, "");
+    return MYSQL_TYPE_MAP[base] ?? "unknown";
+  },
+  inlineReferences: false,
+  tokens: { hashComments: true, backslashEscapes: true },
+  preprocess: doubleEscapedQuotes,
+};
+
+const MYSQL_COMMENT = /--.*|#.*|\/\*[\s\S]*?\*\//y;
+
+/**
+ * MySQL escapes quotes in string literals with a backslash ('it\'s'); rewrite
+ * them to the standard doubled form ('it''s') the parser understands.
+ */
+function doubleEscapedQuotes(sql: string): string {
+  let out = "";
+  let inString = false;
+  for (let i = 0; i < sql.length; i++) {
+    const ch = sql[i];
+    if (inString && ch === "\\" && i + 1 < sql.length) {
+      out += sql[i + 1] === "'" ? "''" : ch + sql[i + 1];
+      i++;
+      continue;
+    }
+    if (!inString) {
+      // Apostrophes in comments ("-- don't") do not open a string.
+      MYSQL_COMMENT.lastIndex = i;
+      const comment = MYSQL_COMMENT.exec(sql);
+      if (comment) {
+        out += comment[0];
+        i += comment[0].length - 1;
+        continue;
+      }
+    }
+    if (ch === "'") inString = !inString;
+    out += ch;
+  }
+  return out;
+}
+
+/**
+ * SQLite type affinity (https://www.sqlite.org/datatype3.html#determination_of_column_affinity),
+ * refined by common declared names so DATETIME or BOOLEAN keep their meaning.
+ */
+function mapSqliteType(rawType: string): SqlColumnType {
+  const base = baseTypeName(rawType);
+  const upper = base.toUpperCase();
+  if (!upper) return "unknown"; // BLOB affinity
+  if (upper.includes("INT")) return upper.includes("BIGINT") ? "bigint" : "integer";
+  if (upper.includes("CHAR")) return "varchar";
+  if (upper.includes("CLOB") || upper.includes("TEXT")) return "text";
+  if (upper.includes("BLOB")) return "bytea";
+  // REAL affinity is always an 8-byte float.
+  if (upper.includes("REAL") || upper.includes("FLOA") || upper.includes("DOUB")) return "double precision";
+  // NUMERIC affinity: the declared name is all that distinguishes these.
+  if (upper.startsWith("BOOL")) return "boolean";
+  if (upper === "DATE") return "date";
+  if (upper.startsWith("DATETIME") || upper.startsWith("TIMESTAMP")) return "timestamp";
+  if (upper === "JSON") return "json";
+  if (upper === "UUID") return "uuid";
+  return "numeric";
+}
+
+const sqlite: DialectSpec = {
+  name: "sqlite",
+  mapType: mapSqliteType,
+  inlineReferences: true,
+  tokens: { bracketIdentifiers: true },
+  untypedColumns: true,
+  finalizeTable: (table, rawTypes, tableOptions) => {
+    // A single-column "INTEGER PRIMARY KEY" aliases the rowid and is assigned
+    // automatically, unless the table is declared WITHOUT ROWID.
+    if (/\bWITHOUT\s+ROWID\b/i.test(tableOptions)) return;
+    if (table.primaryKey.length !== 1) return;
+    const pk = table.columns.find((c) => c.name === table.primaryKey[0]);
+    if (pk && baseTypeName(rawTypes.get(pk.name) ?? "") === "integer") {
+      pk.hasDefault = true;
+      pk.nullable = false;
+    }
+  },
+};
+
+const mssql: DialectSpec = {
+  name: "mssql",
+  mapType: (rawType) => {
+    const t = rawType.replace(/[[\]]/g, "").toLowerCase().replace(/\s+/g, "");
+    // (MAX) variants are unbounded, i.e. text rather than varchar.
+    if (/^n?varchar\(max\)/.test(t)) return "text";
+    if (/^varbinary\(max\)/.test(t)) return "bytea";
+    return MSSQL_TYPE_MAP[baseTypeName(rawType)] ?? "unknown";
+  },
+  inlineReferences: true,
+  tokens: { bracketIdentifiers: true },
+  // `GO` on its own line ends a batch; treat it like a statement terminator.
+  preprocess: (sql) =>
+    sql.replace(/^[^\S\n]*GO[^\S\n]*(?:\d+)?[^\S\n]*$/gim, (line) =>
+      line.replace(/\S+/g, (word) => " ".repeat(word.length)).replace(" ", ";"),
+    ),
+};
+
+/** Type-related fields of a SqlColumn, derived from the declared type. */
+export type ColumnTypeInfo = Pick<
+  SqlColumn,
+  | "type"
+  | "rawType"
+  | "length"
+  | "precision"
+  | "scale"
+  | "elementType"
+  | "arrayDimensions"
+  | "enumValues"
+>;
+
+const LENGTH_TYPES = new Set<SqlColumnType>(["char", "varchar", "bytea"]);
+const PRECISION_TYPES = new Set<SqlColumnType>(["numeric", "money"]);
+
+/**
+ * Describe a declared column type, e.g. "numeric(12,2)" → numeric with
+ * precision 12 and scale 2, or "text[]" → array of text. Used both for DDL
+ * and for types reported by live databases, so the two agree.
+ */
+export function describeColumnType(rawType: string, dialect: SqlDialect | DialectSpec): ColumnTypeInfo {
+  const spec = typeof dialect === "string" ? getDialectSpec(dialect) : dialect;
+  const declared = rawType.trim();
+  let elementText = declared;
+  let arrayDimensions = 0;
+
+  if (spec.arrays) {
+    // integer[], integer[3][3] or the SQL-standard "integer ARRAY[3]".
+    const brackets = /^([\s\S]*?)((?:\s*\[\s*\d*\s*\])+)$/.exec(elementText);
+    if (brackets) {
+      elementText = brackets[1].trim();
+      arrayDimensions = (brackets[2].match(/\[/g) ?? []).length;
+    } else {
+      const keyword = /^([\s\S]*?)\s+ARRAY(?:\s*\[\s*\d*\s*\])?$/i.exec(elementText);
+      if (keyword) {
+        elementText = keyword[1].trim();
+        arrayDimensions = 1;
+      }
+    }
+  }
+
+  const elementType = spec.mapType(elementText);
+  const info: ColumnTypeInfo =
+    arrayDimensions > 0
+      ? { type: "array", elementType, arrayDimensions }
+      : { type: elementType };
+  if (declared) info.rawType = declared;
+
+  const args = (/\(([^)]*)\)/.exec(elementText)?.[1] ?? "")
+    .split(",")
+    .map((a) => a.trim())
+    .filter(Boolean);
+  const numericArgs = args.every((a) => /^\d+$/.test(a)) ? args.map(Number) : [];
+  if (elementType === "enum") {
+    // Inline labels, e.g. MySQL ENUM('small', 'large').
+    info.enumValues = [...elementText.matchAll(/'((?:[^']|'')*)'/g)].map((m) =>
+      m[1].replace(/''/g, "'"),
+    );
+  } else if (LENGTH_TYPES.has(elementType) && numericArgs.length === 1) {
+    info.length = numericArgs[0];
+  } else if (PRECISION_TYPES.has(elementType) && numericArgs.length > 0) {
+    info.precision = numericArgs[0];
+    // numeric(p) means numeric(p, 0).
+    info.scale = numericArgs[1] ?? 0;
+  }
+
+  return info;
+}
+
+/**
+ * Resolve a user-supplied dialect name (CLI flag, config value), accepting
+ * common aliases. Returns undefined for unknown names.
+ */
+export function resolveDialect(name: string): SqlDialect | undefined {
+  switch (name.trim().toLowerCase()) {
+    case "postgres":
+    case "postgresql":
+    case "pg":
+      return "postgres";
+    case "mysql":
+    case "mariadb":
+      return "mysql";
+    case "sqlite":
+    case "sqlite3":
+      return "sqlite";
+    case "mssql":
+    case "sqlserver":
+    case "tsql":
+    case "t-sql":
+      return "mssql";
+    default:
+      return undefined;
+  }
+}
+
+export function getDialectSpec(dialect: SqlDialect): DialectSpec {
+  switch (dialect) {
+    case "mysql":
+      return mysql;
+    case "sqlite":
+      return sqlite;
+    case "mssql":
+      return mssql;
+    case "postgres":
+    default:
+      return postgres;
+  }
+}
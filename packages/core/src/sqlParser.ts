@@ -1,205 +1,1142 @@
 import type {
+  SqlCheckConstraint,
   SqlColumn,
-  SqlColumnType,
+  SqlDiagnostic,
+  SqlDialect,
+  SqlEnumType,
   SqlForeignKey,
+  SqlIndex,
+  SqlIndexKey,
   SqlSchema,
   SqlTable,
 } from "./model";
+import { parseCheckConstraint } from "./constraints";
+import {
+  baseTypeName,
+  describeColumnType,
+  getDialectSpec,
+  type DialectSpec,
+} from "./sqlDialects";
+import {
+  createLineIndex,
+  splitSqlStatements,
+  tokenizeSql,
+  type SqlTokenizerOptions,
+} from "./sqlTokenizer";
 
-// Very small, deterministic subset parser for Postgres-style DDL.
+// Small, deterministic parser for Postgres-style DDL, with dialect-specific
+// lexical rules and type mapping (see sqlDialects.ts). Statements are split
+// by a tokenizer (sqlTokenizer.ts), so strings, dollar-quoted bodies,
+// comments and quoted identifiers never break them apart.
 // Handles:
-// - CREATE TABLE <name> (...);
-// - column lines: name type [constraints...]
-// - PRIMARY KEY (col, ...)
-// - FOREIGN KEY (col) REFERENCES other(col)
-
-const TYPE_MAP: Record<string, SqlColumnType> = {
-  integer: "integer",
-  int: "integer",
-  bigint: "bigint",
-  serial: "serial",
-  bigserial: "bigserial",
-  numeric: "numeric",
-  decimal: "numeric",
-  text: "text",
-  varchar: "varchar",
-  boolean: "boolean",
-  bool: "boolean",
-  timestamp: "timestamp",
-  timestamptz: "timestamptz",
-  date: "date",
-  json: "json",
-  jsonb: "jsonb",
-  uuid: "uuid",
-};
+// - CREATE TABLE [IF NOT EXISTS] <name> (...) [table options];
+// - column lines: name type [constraints...] [CHECK (...)] [REFERENCES other(col)]
+// - [CONSTRAINT name] PRIMARY KEY (col, ...) / UNIQUE [KEY name] (col, ...)
+// - [CONSTRAINT name] FOREIGN KEY (col, ...) REFERENCES other(col, ...)
+// - [CONSTRAINT name] CHECK (...)
+// - CREATE TYPE <name> AS ENUM ('a', 'b', ...)
+// - CREATE [UNIQUE] INDEX [name] ON <table> [USING method] (col | expr [DESC], ...) [WHERE ...],
+//   and MySQL's KEY / INDEX name (col, ...) inside CREATE TABLE
+// - COMMENT ON TABLE / COLUMN <name> IS '...', and MySQL's inline COMMENT '...'
+// - ALTER TABLE [ONLY] <name> [WITH CHECK] ADD [CONSTRAINT name] PRIMARY KEY / UNIQUE /
+//   FOREIGN KEY (the form pg_dump and SQL Server scripts emit after CREATE TABLE)
+// - ALTER TABLE <name> ADD [COLUMN] / MODIFY / CHANGE column definitions, ADD KEY,
+//   ALTER COLUMN col SET DEFAULT ... / SET | DROP NOT NULL / ADD GENERATED ... AS IDENTITY
+// - ALTER TABLE <name> ADD [CONSTRAINT name] DEFAULT ... FOR col (T-SQL)
+// - PARTITION BY table options, CREATE TABLE <name> PARTITION OF <parent> ... and
+//   ALTER TABLE <parent> ATTACH PARTITION <name> ...: partitions are listed
+//   under their root table instead of being tables of their own
+// - "quoted", `backtick` and [bracketed] identifiers
+// Anything else is skipped with a diagnostic (see parseSqlSchemaWithDiagnostics).
 
-function normalizeWhitespace(input: string): string {
-  return input
-    .replace(/--.*$/gm, "") // strip line comments
-    .replace(/\s+/g, " ")
-    .trim();
+export interface ParseSqlOptions {
+  /** DDL dialect of the input (default: "postgres"). */
+  dialect?: SqlDialect;
+}
+
+export interface ParseSqlResult {
+  sqlSchema: SqlSchema;
+  /** Skipped or unparseable input, in input order. */
+  diagnostics: SqlDiagnostic[];
 }
 
-export function parseSqlSchema(sql: string): SqlSchema {
-  const cleaned = sql.trim();
-  if (!cleaned) {
-    return { tables: [], foreignKeys: [] };
+/** One identifier: "quoted", `backticked`, [bracketed] or bare; doubled quotes are escapes. */
+const IDENT = '(?:"(?:[^"]|"")+"|`(?:[^`]|``)+`|\\[(?:[^\\]]|\\]\\])+\\]|[\\w$]+)';
+/** Optionally schema-qualified identifier, e.g. public.album or `db`.`album`. */
+const QUALIFIED_NAME = `${IDENT}(?:\\s*\\.\\s*${IDENT})*`;
+
+/** Keywords that end the type part of a column definition. */
+const COLUMN_CONSTRAINT_START =
+  /^(?:NOT\s+NULL|NULL|DEFAULT|PRIMARY\s+KEY|UNIQUE|REFERENCES|CONSTRAINT|CHECK|COLLATE|AUTO_INCREMENT|AUTOINCREMENT|COMMENT|GENERATED|IDENTITY|CHARACTER\s+SET|CHARSET|ON\s+UPDATE|UNSIGNED|SIGNED|ZEROFILL|AS)\b/i;
+
+/** Table-body lines that declare keys or indexes rather than columns. */
+const KEY_ELEMENT = new RegExp(
+  `^(?:CONSTRAINT\\s+${IDENT}\\s+)?(?:PRIMARY\\s+KEY|UNIQUE|FOREIGN\\s+KEY|CHECK|(?:FULLTEXT\\s+|SPATIAL\\s+)?(?:KEY|INDEX))\\b`,
+  "i",
+);
+
+/** Table-body lines that are neither columns nor keys we model (exclusion constraints, ...). */
+const IGNORED_TABLE_ELEMENT = /^(?:EXCLUDE|PERIOD|CONSTRAINT)\b/i;
+
+const CREATE_INDEX =
+  /^CREATE\s+(?:UNIQUE\s+)?(?:(?:NON)?CLUSTERED\s+|FULLTEXT\s+|SPATIAL\s+)?INDEX\b/i;
+
+/** Statements that never change the schema: session settings, transactions, privileges. */
+const NON_SCHEMA_STATEMENT =
+  /^(?:SET|RESET|USE|SELECT|BEGIN|START\s+TRANSACTION|COMMIT|ROLLBACK|GRANT|REVOKE|PRAGMA|LOCK|UNLOCK|DELIMITER|PRINT)\b/i;
+
+/** Statements carrying rows rather than structure. */
+const DATA_STATEMENT = /^(?:INSERT|UPDATE|DELETE|COPY|MERGE|REPLACE|TRUNCATE)\b/i;
+
+/** Procedure calls and anonymous blocks, e.g. T-SQL's EXEC sp_addextendedproperty. */
+const CALL_STATEMENT = /^(?:EXEC|EXECUTE|CALL|DO)\b/i;
+
+/** CREATE / ALTER / DROP / COMMENT ON and the kind of object they act on. */
+const OBJECT_STATEMENT =
+  /^(CREATE(?:\s+OR\s+REPLACE)?|ALTER|DROP|COMMENT\s+ON)\s+(?:(?:TEMP|TEMPORARY|UNLOGGED|RECURSIVE|TRUSTED|PROCEDURAL|CONSTRAINT|DEFINER\s*=\s*\S+|ALGORITHM\s*=\s*\w+|SQL\s+SECURITY\s+\w+)\s+)*((?:MATERIALIZED\s+)?VIEW|FOREIGN\s+(?:TABLE|DATA\s+WRAPPER)|EVENT\s+TRIGGER|TEXT\s+SEARCH\s+\w+|OPERATOR\s+(?:CLASS|FAMILY)|DEFAULT\s+PRIVILEGES|\w+)/i;
+
+/** ALTER TABLE actions with nothing to model: ownership, storage, triggers, validation. */
+const SILENT_ALTER_ACTION =
+  /^(?:OWNER\s+TO|SET\s+(?:\(|WITH(?:OUT)?\s+(?:OIDS|CLUSTER)|TABLESPACE|LOGGED|UNLOGGED|ACCESS\s+METHOD)|RESET\s*\(|CLUSTER\s+ON|REPLICA\s+IDENTITY|ENABLE|DISABLE|FORCE|NO\s+FORCE|(?:WITH\s+(?:NO)?CHECK\s+)?(?:NO)?CHECK\s+CONSTRAINT|VALIDATE\s+CONSTRAINT|AUTO_INCREMENT|ENGINE)\b/i;
+
+/** ALTER TABLE actions on partitioning and inheritance, which are not modeled yet. */
+const UNMODELED_ALTER_ACTION = /^(?:DETACH\s+PARTITION|INHERIT|NO\s+INHERIT)\b/i;
+
+/**
+ * Quoting rules for text inside a statement, whatever the dialect: dialect
+ * comments are gone by then, and MySQL's \' escapes were rewritten to ''.
+ * Brackets count as nesting (ARRAY[1, 2], T-SQL [names]).
+ */
+const STATEMENT_TOKENS: SqlTokenizerOptions = { dollarQuotes: true };
+
+/** Collapse whitespace between tokens; strings and quoted identifiers keep theirs. */
+function normalizeWhitespace(input: string): string {
+  let out = "";
+  let last = -1;
+  for (const token of tokenizeSql(input, STATEMENT_TOKENS).tokens) {
+    if (last >= 0 && token.start > last) out += " ";
+    out += token.text;
+    last = token.end;
   }
+  // An unterminated quote ends tokenizing; keep the rest as it is.
+  const rest = input.slice(Math.max(last, 0)).trim();
+  return rest ? `${out}${out ? " " : ""}${rest}` : out;
+}
 
-  const statements = cleaned
-    .split(/;/)
-    .map((s) => s.trim())
-    .filter(Boolean);
+type TableConstraint =
+  | { kind: "primaryKey"; columns: string[] }
+  | { kind: "unique"; columns: string[] }
+  | { kind: "foreignKey"; foreignKey: SqlForeignKey }
+  | { kind: "default"; column: string; expression: string }
+  | { kind: "check"; check: SqlCheckConstraint };
+
+type ParsedColumn = NonNullable<ReturnType<typeof parseColumnLine>>;
+
+type AlterTableAction =
+  | TableConstraint
+  /**
+   * ADD [COLUMN], or MODIFY / CHANGE / ALTER COLUMN replacing the column
+   * `replaces`; `keepsDefault` when the new definition cannot state one.
+   */
+  | { kind: "column"; parsed: ParsedColumn; line: string; replaces?: string; keepsDefault?: boolean }
+  | { kind: "identity"; column: string }
+  | { kind: "nullable"; column: string; nullable: boolean }
+  | { kind: "partition"; partition: string; bound: string }
+  | { kind: "index"; index: SqlIndex }
+  /** Nothing to model; `note` says what was skipped when it matters. */
+  | { kind: "ignored"; note?: string };
+
+interface PendingAlter {
+  tableName: string;
+  action: Exclude<AlterTableAction, { kind: "index" } | { kind: "ignored" }>;
+  /** Offset and text of the action, for diagnostics. */
+  offset: number;
+  text: string;
+}
+
+/** A partition and its parent, as named in CREATE TABLE ... PARTITION OF or ATTACH PARTITION. */
+interface PendingPartition {
+  parent: string;
+  partition: string;
+  bound: string;
+  offset: number;
+  text: string;
+}
+
+interface PendingComment {
+  tableName: string;
+  /** Set for COMMENT ON COLUMN. */
+  columnName?: string;
+  /** Undefined for IS NULL, which removes the comment. */
+  text?: string;
+  offset: number;
+  statement: string;
+}
+
+/** A standard string literal; '' inside it is an escaped quote. */
+const STRING_LITERAL = "N?'((?:[^']|'')*)'";
+
+export function parseSqlSchema(sql: string, options: ParseSqlOptions = {}): SqlSchema {
+  return parseSqlSchemaWithDiagnostics(sql, options).sqlSchema;
+}
+
+/**
+ * Like parseSqlSchema, also reporting with line and column what was skipped:
+ * - warning: unknown statements, and statements, table elements or ALTER
+ *   actions that could not be parsed or target an unknown table
+ * - info: statements that were understood but are not modeled (views,
+ *   functions, sequences, ...)
+ * Statements that never change the schema (SET, GRANT, transactions, psql
+ * meta-commands such as \connect) are skipped without a diagnostic.
+ */
+export function parseSqlSchemaWithDiagnostics(
+  sql: string,
+  options: ParseSqlOptions = {},
+): ParseSqlResult {
+  const dialect = getDialectSpec(options.dialect ?? "postgres");
+
+  // preprocess keeps offsets, so positions in `input` are positions in `sql`.
+  const input = dialect.preprocess ? dialect.preprocess(sql) : sql;
+  const split = splitSqlStatements(input, dialect.tokens);
+  const diagnostics: SqlDiagnostic[] = [...split.diagnostics];
+  const position = createLineIndex(input);
+  const report = (
+    severity: SqlDiagnostic["severity"],
+    message: string,
+    offset: number,
+    text: string,
+  ): void => {
+    diagnostics.push({ severity, message, ...position(offset), excerpt: excerpt(text) });
+  };
 
   const tables: SqlTable[] = [];
   const foreignKeys: SqlForeignKey[] = [];
+  const alters: PendingAlter[] = [];
+  const finalizeInfo = new Map<SqlTable, { rawTypes: Map<string, string>; tableOptions: string }>();
+  const enums: SqlEnumType[] = [];
+  const checkConstraints: SqlCheckConstraint[] = [];
+  const comments: PendingComment[] = [];
+  const partitions: PendingPartition[] = [];
+  const indexes: SqlIndex[] = [];
+
+  for (const statement of split.statements) {
+    const stmt = statement.text;
+    const at = statement.start;
+    if (statement.tokens[0].kind === "metaCommand" || NON_SCHEMA_STATEMENT.test(stmt)) continue;
+
+    if (CREATE_INDEX.test(stmt)) {
+      const index = parseIndexDefinition(stmt);
+      if (index) indexes.push(index);
+      else report("warning", "Could not parse CREATE INDEX; index skipped", at, stmt);
+      continue;
+    }
+
+    if (/^COMMENT\s+ON\s+(?:TABLE|COLUMN)\b/i.test(stmt)) {
+      const commentMatch = new RegExp(
+        `^COMMENT\\s+ON\\s+(TABLE|COLUMN)\\s+(${QUALIFIED_NAME})\\s+IS\\s+(?:NULL|${STRING_LITERAL})$`,
+        "i",
+      ).exec(stmt);
+      const name = commentMatch ? normalizeName(commentMatch[2]) : "";
+      const text = commentMatch?.[3]?.replace(/''/g, "'");
+      const dot = name.lastIndexOf(".");
+      if (!commentMatch || (commentMatch[1].toUpperCase() === "COLUMN" && dot <= 0)) {
+        report("warning", "Could not parse COMMENT ON; comment skipped", at, stmt);
+      } else if (commentMatch[1].toUpperCase() === "TABLE") {
+        comments.push({ tableName: name, text, offset: at, statement: stmt });
+      } else {
+        comments.push({
+          tableName: name.slice(0, dot),
+          columnName: name.slice(dot + 1),
+          text,
+          offset: at,
+          statement: stmt,
+        });
+      }
+      continue;
+    }
+
+    const enumMatch = new RegExp(
+      `^CREATE\\s+TYPE\\s+(${QUALIFIED_NAME})\\s+AS\\s+ENUM\\s*\\(([\\s\\S]*)\\)$`,
+      "i",
+    ).exec(stmt);
+    if (enumMatch) {
+      enums.push({
+        name: normalizeName(enumMatch[1]),
+        values: [...enumMatch[2].matchAll(/'((?:[^']|'')*)'/g)].map((m) =>
+          m[1].replace(/''/g, "'"),
+        ),
+      });
+      continue;
+    }
 
-  for (const stmt of statements) {
-    const match = /^CREATE\s+TABLE\s+("?[\w.]+"?)\s*\(([\s\S]*)\)$/i.exec(
-      stmt.trim().replace(/;$/, ""),
-    );
-    if (!match) continue;
+    const alterMatch = new RegExp(
+      `^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?(${QUALIFIED_NAME})\\s+([\\s\\S]*)$`,
+      "i",
+    ).exec(stmt);
+    if (alterMatch) {
+      const tableName = normalizeName(alterMatch[1]);
+      const actionsStart = stmt.length - alterMatch[2].length;
+      for (const part of splitTopLevel(alterMatch[2])) {
+        const text = normalizeWhitespace(part.text);
+        const offset = at + actionsStart + part.start;
+        const action = parseAlterTableAction(text, tableName, dialect);
+        if (!action) {
+          report("warning", `Unsupported ALTER TABLE action on ${tableName}; skipped`, offset, text);
+        } else if (action.kind === "ignored") {
+          if (action.note) report("info", action.note, offset, text);
+        } else if (action.kind === "index") {
+          indexes.push(action.index);
+        } else {
+          alters.push({ tableName, action, offset, text });
+        }
+      }
+      continue;
+    }
 
-    const tableName = stripQuotes(match[1]);
-    const body = match[2].trim();
-    const lines = splitColumns(body);
+    const partitionOf = new RegExp(
+      `^CREATE\\s+(?:UNLOGGED\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(${QUALIFIED_NAME})\\s+PARTITION\\s+OF\\s+(${QUALIFIED_NAME})\\s*([\\s\\S]*)$`,
+      "i",
+    ).exec(stmt);
+    if (partitionOf) {
+      // Constraints in parentheses and storage options do not change where rows go.
+      let rest = partitionOf[3];
+      if (rest.startsWith("(")) {
+        const elements = extractParenthesized(rest, 0);
+        rest = elements == null ? "" : rest.slice(elements.length + 2);
+      }
+      const bound = normalizeWhitespace(rest.replace(/\b(?:PARTITION\s+BY|USING|TABLESPACE)\b[\s\S]*$/i, ""));
+      if (!bound) {
+        report("warning", "Could not parse CREATE TABLE ... PARTITION OF; partition skipped", at, stmt);
+      } else {
+        partitions.push({
+          parent: normalizeName(partitionOf[2]),
+          partition: normalizeName(partitionOf[1]),
+          bound,
+          offset: at,
+          text: stmt,
+        });
+      }
+      continue;
+    }
+
+    const match = new RegExp(
+      `^CREATE\\s+(?:(?:GLOBAL\\s+|LOCAL\\s+)?(?:TEMPORARY|TEMP)\\s+|UNLOGGED\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(${QUALIFIED_NAME})\\s*\\(`,
+      "i",
+    ).exec(stmt);
+    if (!match) {
+      reportUnparsed(stmt, (severity, message) => report(severity, message, at, stmt));
+      continue;
+    }
 
+    // Everything up to the matching ")" is the body; table options such as
+    // MySQL's ENGINE=InnoDB follow it and are ignored.
+    const bodyStart = match[0].length;
+    const body = extractParenthesized(stmt, bodyStart - 1);
+    if (body == null) {
+      report("warning", "Unbalanced parentheses in CREATE TABLE; table skipped", at, stmt);
+      continue;
+    }
+    const tableOptions = stmt.slice(bodyStart + body.length + 1);
+
+    const tableName = normalizeName(match[1]);
     const columns: SqlColumn[] = [];
     const primaryKey: string[] = [];
     const uniqueConstraints: string[][] = [];
+    const rawTypes = new Map<string, string>();
 
-    for (const rawLine of lines) {
-      const line = normalizeWhitespace(rawLine);
-      if (!line) continue;
+    for (const element of splitTopLevel(body)) {
+      const line = normalizeWhitespace(element.text);
+      const offset = at + bodyStart + element.start;
 
-      const upper = line.toUpperCase();
-      if (upper.startsWith("PRIMARY KEY")) {
-        const cols = extractColumnList(line);
-        primaryKey.push(...cols);
+      const constraint = parseTableConstraint(line, tableName);
+      if (constraint) {
+        if (constraint.kind === "primaryKey") {
+          primaryKey.push(...constraint.columns);
+        } else if (constraint.kind === "unique") {
+          uniqueConstraints.push(constraint.columns);
+        } else if (constraint.kind === "foreignKey") {
+          foreignKeys.push(constraint.foreignKey);
+        } else if (constraint.kind === "check") {
+          checkConstraints.push(constraint.check);
+        }
         continue;
       }
 
-      if (upper.startsWith("UNIQUE")) {
-        const cols = extractColumnList(line);
-        uniqueConstraints.push(cols);
+      const inlineIndex = parseInlineIndex(line, tableName);
+      if (inlineIndex) {
+        indexes.push(inlineIndex);
         continue;
       }
 
-      if (upper.startsWith("FOREIGN KEY")) {
-        const fk = parseTableLevelForeignKey(line, tableName);
-        if (fk) foreignKeys.push(fk);
+      if (KEY_ELEMENT.test(line)) {
+        report("warning", `Could not parse key of ${tableName}; skipped`, offset, line);
+        continue;
+      }
+      if (/^LIKE\b/i.test(line)) {
+        report("warning", `LIKE is not supported; columns copied into ${tableName} are missing`, offset, line);
+        continue;
+      }
+      if (IGNORED_TABLE_ELEMENT.test(line)) {
+        report("info", `Table element of ${tableName} is not modeled; skipped`, offset, line);
         continue;
       }
 
-      const col = parseColumnLine(line, tableName);
-      if (col) columns.push(col);
+      const parsed = parseColumnLine(line, dialect);
+      if (!parsed) {
+        report("warning", `Could not parse column of ${tableName}; skipped`, offset, line);
+        continue;
+      }
+      const col = parsed.column;
+      columns.push(col);
+      rawTypes.set(col.name, parsed.rawType);
+      for (const check of parsed.checks) {
+        checkConstraints.push(parseCheckConstraint(tableName, check.expression, check.name));
+      }
+
+      if (dialect.inlineReferences) {
+        const inlineFk = parseInlineReference(line, tableName, col.name);
+        if (inlineFk) foreignKeys.push(inlineFk);
+      }
     }
 
-    tables.push({
+    const tableComment = new RegExp(`\\bCOMMENT\\s*=?\\s*${STRING_LITERAL}`, "i").exec(tableOptions);
+    const partitionBy = /\bPARTITION\s+BY\s+((?:LINEAR\s+)?\w+(?:\s+COLUMNS)?)\s*\(/i.exec(tableOptions);
+    const partitionColumns = partitionBy
+      ? extractParenthesized(tableOptions, partitionBy.index + partitionBy[0].length - 1)
+      : null;
+    const schemaEnd = tableName.lastIndexOf(".");
+    const table: SqlTable = {
       name: tableName,
+      ...(schemaEnd > 0 ? { schema: tableName.slice(0, schemaEnd) } : {}),
       columns,
       primaryKey,
       uniqueConstraints,
+      ...(tableComment ? { comment: tableComment[1].replace(/''/g, "'") } : {}),
+      ...(partitionBy && partitionColumns != null
+        ? {
+            partitionKey: normalizeWhitespace(
+              `${partitionBy[1].toUpperCase()} (${partitionColumns})`,
+            ),
+          }
+        : {}),
+    };
+    tables.push(table);
+    finalizeInfo.set(table, { rawTypes, tableOptions });
+  }
+
+  // ALTER TABLE statements usually come after every CREATE TABLE in a dump,
+  // so apply them once all tables are known.
+  for (const { tableName, action, offset, text } of alters) {
+    const table = findTable(tables, tableName);
+    if (!table) {
+      report("warning", `ALTER TABLE targets unknown table ${tableName}; skipped`, offset, text);
+      continue;
+    }
+    if (action.kind === "primaryKey") {
+      table.primaryKey = [...action.columns];
+    } else if (action.kind === "unique") {
+      table.uniqueConstraints.push(action.columns);
+    } else if (action.kind === "foreignKey") {
+      foreignKeys.push({ ...action.foreignKey, fromTable: table.name });
+    } else if (action.kind === "check") {
+      checkConstraints.push({ ...action.check, table: table.name });
+    } else if (action.kind === "partition") {
+      partitions.push({ parent: table.name, partition: action.partition, bound: action.bound, offset, text });
+    } else if (action.kind === "column") {
+      const { column, rawType, checks } = action.parsed;
+      const existing = table.columns.findIndex((c) => c.name === (action.replaces ?? column.name));
+      if (existing < 0) {
+        table.columns.push(column);
+      } else {
+        const { hasDefault, defaultExpression, comment } = table.columns[existing];
+        table.columns[existing] = {
+          ...column,
+          ...(action.keepsDefault && hasDefault ? { hasDefault, defaultExpression } : {}),
+          ...(comment && !column.comment ? { comment } : {}),
+        };
+      }
+      finalizeInfo.get(table)?.rawTypes.set(column.name, rawType);
+      for (const check of checks) {
+        checkConstraints.push(parseCheckConstraint(table.name, check.expression, check.name));
+      }
+      if (dialect.inlineReferences) {
+        const inlineFk = parseInlineReference(action.line, table.name, column.name);
+        if (inlineFk) foreignKeys.push(inlineFk);
+      }
+    } else {
+      const col = table.columns.find((c) => c.name === action.column);
+      if (!col) {
+        report("warning", `ALTER TABLE targets unknown column ${tableName}.${action.column}; skipped`, offset, text);
+      } else if (action.kind === "default") {
+        col.hasDefault = true;
+        col.defaultExpression = action.expression;
+      } else if (action.kind === "identity") {
+        col.hasDefault = true;
+      } else {
+        col.nullable = action.nullable;
+      }
+    }
+  }
+
+  for (const { tableName, columnName, text, offset, statement } of comments) {
+    const table = findTable(tables, tableName);
+    const target = columnName ? table?.columns.find((c) => c.name === columnName) : table;
+    if (!target) {
+      const name = columnName ? `${tableName}.${columnName}` : tableName;
+      report("warning", `COMMENT ON targets unknown ${columnName ? "column" : "table"} ${name}; skipped`, offset, statement);
+      continue;
+    }
+    if (text) target.comment = text;
+    else delete target.comment;
+  }
+
+  // Partitions hold rows of their parent: list them under the root
+  // partitioned table, and drop the tables pg_dump writes for them.
+  const parentOf = new Map<string, string>();
+  const attached: Array<{ name: string; bound: string }> = [];
+  // A partition may itself be partitioned (PARTITION OF a partition).
+  const partitionNames = new Set(partitions.map((p) => p.partition));
+  for (const { parent, partition, bound, offset, text } of partitions) {
+    const parentName =
+      findTable(tables, parent, partition)?.name ?? (partitionNames.has(parent) ? parent : undefined);
+    if (!parentName) {
+      report("warning", `Partition ${partition} of unknown table ${parent}; skipped`, offset, text);
+      continue;
+    }
+    const name = findTable(tables, partition, parentName)?.name ?? partition;
+    parentOf.set(name, parentName);
+    attached.push({ name, bound });
+  }
+  for (const { name, bound } of attached) {
+    let root = parentOf.get(name)!;
+    for (let depth = 0; parentOf.has(root) && depth < parentOf.size; depth++) root = parentOf.get(root)!;
+    const rootTable = tables.find((t) => t.name === root);
+    if (rootTable) (rootTable.partitions ??= []).push({ name, bound });
+  }
+  if (parentOf.size > 0) {
+    removeWhere(tables, (t) => parentOf.has(t.name));
+    removeWhere(foreignKeys, (fk) => parentOf.has(fk.fromTable));
+    removeWhere(checkConstraints, (check) => parentOf.has(check.table));
+    removeWhere(indexes, (index) => parentOf.has(index.table));
+  }
+
+  for (const table of tables) {
+    syncKeyFlags(table);
+    const info = finalizeInfo.get(table);
+    if (dialect.finalizeTable && info) {
+      dialect.finalizeTable(table, info.rawTypes, info.tableOptions);
+    }
+  }
+
+  // Names written differently from the CREATE TABLE (with or without a
+  // schema) still point at that table.
+  for (const index of indexes) {
+    index.table = findTable(tables, index.table)?.name ?? index.table;
+  }
+  for (const fk of foreignKeys) {
+    fk.toTable = findTable(tables, fk.toTable, fk.fromTable)?.name ?? fk.toTable;
+  }
+
+  // `REFERENCES other` without a column list targets the referenced primary key.
+  for (const fk of foreignKeys) {
+    if (fk.toColumns.length > 0) continue;
+    const target = tables.find((t) => t.name === fk.toTable);
+    fk.toColumns =
+      target && target.primaryKey.length === fk.fromColumns.length
+        ? [...target.primaryKey]
+        : ["id"];
+    fk.toColumn = fk.toColumns[0];
+  }
+
+  resolveEnumColumns(tables, enums);
+
+  return {
+    sqlSchema: {
+      tables,
+      foreignKeys,
+      ...(enums.length > 0 ? { enums } : {}),
+      ...(checkConstraints.length > 0 ? { checkConstraints } : {}),
+      ...(indexes.length > 0 ? { indexes } : {}),
+    },
+    diagnostics: diagnostics.sort((a, b) => a.line - b.line || a.column - b.column),
+  };
+}
+
+/**
+ * Report a statement none of the parsers above took: CREATE / ALTER TABLE
+ * forms we do not read are warnings, other objects and data are info, and
+ * anything unrecognized is a warning.
+ */
+function reportUnparsed(
+  stmt: string,
+  report: (severity: SqlDiagnostic["severity"], message: string) => void,
+): void {
+  const object = OBJECT_STATEMENT.exec(stmt);
+  if (object) {
+    const verb = normalizeWhitespace(object[1]).toUpperCase();
+    const kind = normalizeWhitespace(object[2]).toUpperCase();
+    if (kind === "TABLE" && (verb.startsWith("CREATE") || verb === "ALTER")) {
+      report("warning", `Could not parse ${verb} TABLE (only column lists are supported); skipped`);
+    } else {
+      report("info", `${verb} ${kind} is not modeled; skipped`);
+    }
+  } else if (DATA_STATEMENT.test(stmt)) {
+    report("info", "Data statement skipped");
+  } else if (CALL_STATEMENT.test(stmt)) {
+    report("info", "Procedure call skipped");
+  } else {
+    report("warning", "Unrecognized statement skipped");
+  }
+}
+
+/** First line of a statement or element, shortened for diagnostics. */
+function excerpt(text: string): string {
+  const firstLine = text.trim().split("\n")[0].trim();
+  return firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+}
+
+/**
+ * Parse one CREATE INDEX statement, as written in a DDL file or reported by
+ * pg_indexes.indexdef. Returns null for anything else.
+ */
+export function parseIndexDefinition(statement: string): SqlIndex | null {
+  const stmt = statement.trim().replace(/;\s*$/, "");
+  const m = new RegExp(
+    `^CREATE\\s+(UNIQUE\\s+)?(?:(?:NON)?CLUSTERED\\s+)?(?:(FULLTEXT|SPATIAL)\\s+)?INDEX\\s+` +
+      `(?:CONCURRENTLY\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?(?:(${QUALIFIED_NAME})\\s+)?` +
+      `(?:USING\\s+(\\w+)\\s+)?ON\\s+(?:ONLY\\s+)?(${QUALIFIED_NAME})\\s*(?:USING\\s+(\\w+)\\s*)?\\(`,
+    "i",
+  ).exec(stmt);
+  if (!m) return null;
+
+  const body = extractParenthesized(stmt, m[0].length - 1);
+  if (body == null) return null;
+  const keys = splitColumns(body).map(parseIndexKey);
+  const table = normalizeName(m[5]);
+  const method = (m[2] ?? m[4] ?? m[6])?.toLowerCase();
+
+  // The predicate ends where T-SQL's WITH (...) / ON [filegroup] options start.
+  const rest = stmt.slice(m[0].length + body.length + 1);
+  const where = /\bWHERE\s+([\s\S]+?)(?:\s+WITH\s*\(|\s+ON\s+[["\w]|$)/i.exec(rest)?.[1];
+
+  return {
+    name: m[3] ? lastNamePart(m[3]) : defaultIndexName(table, keys),
+    table,
+    keys,
+    unique: Boolean(m[1]),
+    ...(where ? { where: normalizeWhitespace(where) } : {}),
+    ...(method ? { method } : {}),
+  };
+}
+
+/** MySQL's KEY / INDEX / FULLTEXT KEY name (col, ...) inside CREATE TABLE. */
+function parseInlineIndex(line: string, tableName: string): SqlIndex | null {
+  const m = new RegExp(
+    `^(?:(FULLTEXT|SPATIAL)\\s+)?(?:KEY|INDEX)\\s+(?:(${IDENT})\\s*)?(?:USING\\s+(\\w+)\\s*)?\\(`,
+    "i",
+  ).exec(line);
+  if (!m) return null;
+  const body = extractParenthesized(line, m[0].length - 1);
+  if (body == null) return null;
+  const keys = splitColumns(body).map(parseIndexKey);
+  const method = (m[1] ?? m[3])?.toLowerCase();
+  return {
+    name: m[2] ? stripQuotes(m[2]) : defaultIndexName(tableName, keys),
+    table: tableName,
+    keys,
+    unique: false,
+    ...(method ? { method } : {}),
+  };
+}
+
+/**
+ * One key part: a column, optionally with a prefix length, collation,
+ * operator class and ordering (email(50), name text_pattern_ops DESC), or an
+ * expression such as lower(email) or (a + b).
+ */
+function parseIndexKey(part: string): SqlIndexKey {
+  let text = normalizeWhitespace(part).replace(/\s+NULLS\s+(?:FIRST|LAST)$/i, "");
+  const order = /\s+(ASC|DESC)$/i.exec(text);
+  if (order) text = text.slice(0, order.index);
+  text = text.replace(/\s+COLLATE\s+\S+/i, "");
+  const descending = order?.[1].toUpperCase() === "DESC";
+
+  const column = new RegExp(`^(${IDENT})(?:\\s*\\(\\s*\\d+\\s*\\))?(?:\\s+[\\w.]+)?$`).exec(text);
+  if (column) {
+    return { column: stripQuotes(column[1]), ...(descending ? { descending } : {}) };
+  }
+  const wrapped = text.startsWith("(") && extractParenthesized(text, 0)?.length === text.length - 2;
+  return {
+    expression: wrapped ? text.slice(1, -1).trim() : text,
+    ...(descending ? { descending } : {}),
+  };
+}
+
+/** Postgres' naming for unnamed indexes: album_title_idx. */
+function defaultIndexName(tableName: string, keys: SqlIndexKey[]): string {
+  const parts = keys.map((k) => k.column ?? "expr");
+  return `${lastNamePart(tableName)}_${parts.join("_")}_idx`;
+}
+
+/** public.album_title_idx → album_title_idx; index names are not schema-qualified. */
+function lastNamePart(raw: string): string {
+  const name = normalizeName(raw);
+  return name.slice(name.lastIndexOf(".") + 1);
+}
+
+function removeWhere<T>(items: T[], predicate: (item: T) => boolean): void {
+  const kept = items.filter((item) => !predicate(item));
+  items.splice(0, items.length, ...kept);
+}
+
+/**
+ * The table `name` refers to: the table of that exact name, else the table
+ * of that name in the schema of `from` (REFERENCES user inside
+ * auth.session), else the only table of that name in any schema.
+ */
+function findTable(tables: SqlTable[], name: string, from?: string): SqlTable | undefined {
+  const exact = tables.find((t) => t.name === name);
+  if (exact) return exact;
+  const bare = lastNamePart(name);
+  const schemaEnd = from?.lastIndexOf(".") ?? -1;
+  if (from && schemaEnd > 0 && !name.includes(".")) {
+    const sibling = tables.find((t) => t.name === `${from.slice(0, schemaEnd)}.${bare}`);
+    if (sibling) return sibling;
+  }
+  const candidates = tables.filter((t) => lastNamePart(t.name) === bare);
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * Columns typed with a CREATE TYPE ... AS ENUM type map to "unknown" until
+ * every statement is read; point them (or their array elements) at the enum.
+ */
+function resolveEnumColumns(tables: SqlTable[], enums: SqlEnumType[]): void {
+  if (enums.length === 0) return;
+  const findEnum = (typeName: string): SqlEnumType | undefined => {
+    const wanted = typeName.toLowerCase();
+    return enums.find((e) => {
+      const name = e.name.toLowerCase();
+      return name === wanted || name.endsWith(`.${wanted}`) || wanted.endsWith(`.${name}`);
     });
+  };
+
+  for (const table of tables) {
+    for (const col of table.columns) {
+      const isArray = col.type === "array";
+      if ((isArray ? col.elementType : col.type) !== "unknown" || !col.rawType) continue;
+      // baseTypeName drops [] already; "mood ARRAY" keeps the keyword.
+      const enumType = findEnum(baseTypeName(col.rawType).replace(/\s+array$/, ""));
+      if (!enumType) continue;
+      if (isArray) col.elementType = "enum";
+      else col.type = "enum";
+      col.enumType = enumType.name;
+      col.enumValues = [...enumType.values];
+    }
+  }
+}
+
+/**
+ * Keep column-level and table-level key information consistent, whichever
+ * form the DDL used to declare it.
+ */
+function syncKeyFlags(table: SqlTable): void {
+  for (const col of table.columns) {
+    if (col.isPrimaryKey && !table.primaryKey.includes(col.name)) {
+      table.primaryKey.push(col.name);
+    }
+    if (
+      col.isUnique &&
+      !table.uniqueConstraints.some((uc) => uc.length === 1 && uc[0] === col.name)
+    ) {
+      table.uniqueConstraints.push([col.name]);
+    }
   }
 
-  return { tables, foreignKeys };
+  for (const col of table.columns) {
+    if (table.primaryKey.includes(col.name)) {
+      col.isPrimaryKey = true;
+      col.nullable = false;
+    }
+    if (table.uniqueConstraints.some((uc) => uc.length === 1 && uc[0] === col.name)) {
+      col.isUnique = true;
+    }
+  }
 }
 
-function splitColumns(body: string): string[] {
-  const parts: string[] = [];
-  let current = "";
+function parseAlterTableAction(
+  action: string,
+  tableName: string,
+  dialect: DialectSpec,
+): AlterTableAction | null {
+  const attach = new RegExp(`^ATTACH\\s+PARTITION\\s+(${QUALIFIED_NAME})\\s+([\\s\\S]+)$`, "i").exec(action);
+  if (attach) return { kind: "partition", partition: normalizeName(attach[1]), bound: attach[2] };
+  if (SILENT_ALTER_ACTION.test(action)) return { kind: "ignored" };
+  if (UNMODELED_ALTER_ACTION.test(action)) {
+    return { kind: "ignored", note: `Partitioning and inheritance of ${tableName} are not modeled; skipped` };
+  }
+
+  // T-SQL scripts write "WITH CHECK ADD CONSTRAINT ..."; the check mode does not matter here.
+  const add = /^(?:WITH\s+(?:NO)?CHECK\s+)?ADD\s+([\s\S]*)$/i.exec(action);
+  if (add) {
+    const constraint = parseTableConstraint(add[1], tableName);
+    if (constraint) return constraint;
+    const index = parseInlineIndex(add[1], tableName);
+    if (index) return { kind: "index", index };
+    if (KEY_ELEMENT.test(add[1])) return null;
+    if (IGNORED_TABLE_ELEMENT.test(add[1])) {
+      return { kind: "ignored", note: `Constraint of ${tableName} is not modeled; skipped` };
+    }
+    const definition = /^COLUMN\s+(?:IF\s+NOT\s+EXISTS\s+)?([\s\S]*)$/i.exec(add[1])?.[1] ?? add[1];
+    const parsed = parseColumnLine(definition, dialect);
+    return parsed ? { kind: "column", parsed, line: definition } : null;
+  }
+
+  // MySQL: MODIFY [COLUMN] definition / CHANGE [COLUMN] old definition.
+  const modify = new RegExp(
+    `^(?:MODIFY\\s+(?:COLUMN\\s+)?|CHANGE\\s+(?:COLUMN\\s+)?(${IDENT})\\s+)([\\s\\S]*)$`,
+    "i",
+  ).exec(action);
+  if (modify) {
+    const parsed = parseColumnLine(modify[2], dialect);
+    if (!parsed) return null;
+    const replaces = modify[1] ? normalizeName(modify[1]) : parsed.column.name;
+    return { kind: "column", parsed, line: modify[2], replaces };
+  }
+
+  const alterColumn = new RegExp(
+    `^ALTER\\s+(?:COLUMN\\s+)?(${IDENT})\\s+([\\s\\S]*)$`,
+    "i",
+  ).exec(action);
+  if (alterColumn) {
+    const column = normalizeName(alterColumn[1]);
+    const change = alterColumn[2];
+    const setDefault = /^SET\s+DEFAULT\s+([\s\S]+)$/i.exec(change);
+    if (setDefault) return { kind: "default", column, expression: setDefault[1].trim() };
+    if (/^ADD\s+GENERATED\b/i.test(change)) return { kind: "identity", column };
+    if (/^(?:SET|DROP)\s+NOT\s+NULL$/i.test(change)) {
+      return { kind: "nullable", column, nullable: /^DROP\b/i.test(change) };
+    }
+    if (/^(?:SET\s+(?:STATISTICS|STORAGE|COMPRESSION)|OPTIONS)\b/i.test(change)) {
+      return { kind: "ignored" };
+    }
+    // T-SQL restates the whole column: ALTER COLUMN name type [NOT] NULL.
+    if (/^(?:SET|DROP|ADD|TYPE|RESET)\b/i.test(change)) return null;
+    const parsed = parseColumnLine(`${alterColumn[1]} ${change}`, dialect);
+    return parsed
+      ? { kind: "column", parsed, line: action, replaces: column, keepsDefault: true }
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a table-level constraint, optionally prefixed with `CONSTRAINT name`.
+ * Returns null for anything that is not a PK, UNIQUE, FK, CHECK or T-SQL
+ * `DEFAULT ... FOR col` constraint.
+ */
+function parseTableConstraint(
+  line: string,
+  tableName: string,
+): TableConstraint | null {
+  let rest = line;
+  let constraintName: string | undefined;
+
+  const named = new RegExp(`^CONSTRAINT\\s+(${IDENT})\\s+([\\s\\S]*)$`, "i").exec(rest);
+  if (named) {
+    constraintName = normalizeName(named[1]);
+    rest = named[2];
+  }
+
+  const upper = rest.toUpperCase();
+  if (upper.startsWith("PRIMARY KEY")) {
+    return { kind: "primaryKey", columns: extractColumnList(rest) };
+  }
+
+  if (upper.startsWith("UNIQUE")) {
+    return { kind: "unique", columns: extractColumnList(rest) };
+  }
+
+  if (upper.startsWith("FOREIGN KEY")) {
+    const fk = parseTableLevelForeignKey(rest, tableName, constraintName);
+    return fk ? { kind: "foreignKey", foreignKey: fk } : null;
+  }
+
+  if (upper.startsWith("CHECK")) {
+    const open = rest.indexOf("(");
+    const expression = open < 0 ? null : extractParenthesized(rest, open);
+    return expression == null
+      ? null
+      : { kind: "check", check: parseCheckConstraint(tableName, expression, constraintName) };
+  }
+
+  const defaultFor = new RegExp(`^DEFAULT\\s+([\\s\\S]*?)\\s+FOR\\s+(${IDENT})$`, "i").exec(rest);
+  if (defaultFor) {
+    return {
+      kind: "default",
+      column: normalizeName(defaultFor[2]),
+      expression: defaultFor[1].trim(),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Split on top-level commas, ignoring commas inside parentheses, brackets
+ * and quotes. Parts are trimmed; `start` is each part's offset in `text`.
+ */
+function splitTopLevel(text: string): Array<{ text: string; start: number }> {
+  const parts: Array<{ text: string; start: number }> = [];
   let depth = 0;
-  for (let i = 0; i < body.length; i++) {
-    const ch = body[i];
-    if (ch === "(") depth++;
-    if (ch === ")") depth--;
-    if (ch === "," && depth === 0) {
-      parts.push(current);
-      current = "";
-    } else {
-      current += ch;
+  let partStart = -1;
+  let partEnd = -1;
+  const flush = (): void => {
+    if (partStart >= 0) parts.push({ text: text.slice(partStart, partEnd), start: partStart });
+    partStart = -1;
+  };
+  for (const token of tokenizeSql(text, STATEMENT_TOKENS).tokens) {
+    if (token.kind === "operator") {
+      if (token.text === "(" || token.text === "[") depth++;
+      if (token.text === ")" || token.text === "]") depth--;
+      if (token.text === "," && depth === 0) {
+        flush();
+        continue;
+      }
     }
+    if (partStart < 0) partStart = token.start;
+    partEnd = token.end;
   }
-  if (current.trim()) parts.push(current);
+  flush();
   return parts;
 }
 
+function splitColumns(body: string): string[] {
+  return splitTopLevel(body).map((part) => part.text);
+}
+
+/**
+ * Return the text between the "(" at `openIndex` and its matching ")",
+ * or null when the parentheses are unbalanced.
+ */
+function extractParenthesized(input: string, openIndex: number): string | null {
+  let depth = 0;
+  for (const token of tokenizeSql(input.slice(openIndex), STATEMENT_TOKENS).tokens) {
+    if (token.kind !== "operator") continue;
+    if (token.text === "(") depth++;
+    if (token.text === ")") {
+      depth--;
+      if (depth === 0) return input.slice(openIndex + 1, openIndex + token.start);
+    }
+  }
+  return null;
+}
+
+const CLOSING_QUOTE: Record<string, string> = { '"': '"', "`": "`", "[": "]" };
+
+/** "a ""b""" → a "b"; `x` and [x] alike. */
 function stripQuotes(name: string): string {
   const trimmed = name.trim();
-  if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
-    return trimmed.slice(1, -1);
+  const close = CLOSING_QUOTE[trimmed[0]];
+  if (close && trimmed.length > 1 && trimmed.endsWith(close)) {
+    return trimmed.slice(1, -1).split(close + close).join(close);
   }
   return trimmed;
 }
 
-function mapType(token: string): SqlColumnType {
-  const base = token.toLowerCase().replace(/\(.*/, "");
-  return TYPE_MAP[base] ?? "unknown";
+/** Strip quoting from each part of a possibly qualified name: `db`.`t` → db.t */
+function normalizeName(raw: string): string {
+  const parts = raw.match(new RegExp(IDENT, "g")) ?? [raw];
+  return parts.map(stripQuotes).join(".");
+}
+
+/** Split "type [constraints...]" at the first column constraint keyword outside parentheses. */
+function splitTypeAndConstraints(definition: string): { typeText: string; rest: string } {
+  let depth = 0;
+  for (let i = 0; i < definition.length; i++) {
+    const ch = definition[i];
+    if (ch === "(") depth++;
+    if (ch === ")") depth--;
+    if (depth !== 0) continue;
+    const atWordStart = i === 0 || definition[i - 1] === " ";
+    if (atWordStart && COLUMN_CONSTRAINT_START.test(definition.slice(i))) {
+      return { typeText: definition.slice(0, i).trim(), rest: definition.slice(i) };
+    }
+  }
+  return { typeText: definition.trim(), rest: "" };
 }
 
-function parseColumnLine(line: string, tableName: string): SqlColumn | null {
-  const tokens = line.split(" ").filter(Boolean);
-  if (tokens.length < 2) return null;
+function parseColumnLine(
+  line: string,
+  dialect: DialectSpec,
+): {
+  column: SqlColumn;
+  rawType: string;
+  checks: Array<{ name?: string; expression: string }>;
+} | null {
+  const m = new RegExp(`^(${IDENT})(?:\\s+([\\s\\S]+))?$`).exec(line);
+  if (!m) return null;
 
-  const name = stripQuotes(tokens[0]);
-  const typeToken = tokens[1];
-  const type = mapType(typeToken);
+  const name = normalizeName(m[1]);
+  const { typeText, rest: rawRest } = splitTypeAndConstraints(m[2] ?? "");
+  if (!typeText && !dialect.untypedColumns) return null;
 
-  const rest = tokens.slice(2).join(" ").toUpperCase();
-  const nullable = !/NOT NULL/.test(rest);
-  const isPrimaryKey = /PRIMARY KEY/.test(rest);
-  const isUnique = /UNIQUE/.test(rest);
-  const hasDefault = /DEFAULT /.test(rest);
+  // Blank out string literals (keeping offsets) so DEFAULT 'not null' or
+  // COMMENT 'unique id' cannot be mistaken for constraints.
+  const rest = blankStringLiterals(rawRest).toUpperCase();
+  const nullable = !/\bNOT NULL\b/.test(rest);
+  const isPrimaryKey = /\bPRIMARY KEY\b/.test(rest);
+  const isUnique = /\bUNIQUE\b/.test(rest);
+  const { type, ...typeDetails } = describeColumnType(typeText, dialect);
+  // serial types are shorthand for DEFAULT nextval(...).
+  const hasDefault =
+    type === "serial" ||
+    type === "bigserial" ||
+    /\b(?:DEFAULT|AUTO_INCREMENT|AUTOINCREMENT|IDENTITY|GENERATED)\b/.test(rest);
+  const defaultExpression = extractDefaultExpression(rawRest, rest);
+  const commentAt = /\bCOMMENT\s+(?=N?')/.exec(rest);
+  const comment = commentAt
+    ? new RegExp(`^${STRING_LITERAL}`).exec(rawRest.slice(commentAt.index + commentAt[0].length))?.[1]
+    : undefined;
+
+  const checks: Array<{ name?: string; expression: string }> = [];
+  for (const m of rest.matchAll(new RegExp(`(?:\\bCONSTRAINT\\s+(${IDENT})\\s+)?\\bCHECK\\s*\\(`, "g"))) {
+    const open = m.index! + m[0].length - 1;
+    const expression = extractParenthesized(rawRest, open);
+    if (expression == null) continue;
+    let name: string | undefined;
+    if (m[1]) {
+      // Offsets match; take the name from the original, not upper-cased, text.
+      const start = m.index! + m[0].indexOf(m[1]);
+      name = normalizeName(rawRest.slice(start, start + m[1].length));
+    }
+    checks.push({ ...(name ? { name } : {}), expression });
+  }
 
   return {
-    name,
-    type,
-    nullable,
-    isPrimaryKey,
-    isUnique,
-    hasDefault,
+    column: {
+      name,
+      type,
+      nullable,
+      isPrimaryKey,
+      isUnique,
+      hasDefault,
+      ...typeDetails,
+      ...(defaultExpression ? { defaultExpression } : {}),
+      ...(comment ? { comment: comment.replace(/''/g, "'") } : {}),
+    },
+    rawType: typeText,
+    checks,
   };
 }
 
+/**
+ * The expression after DEFAULT, up to the next column constraint, e.g.
+ * "now()" or "'n/a'::text". `blanked` is `constraints` with string literals
+ * blanked out and upper-cased, so offsets line up.
+ */
+function extractDefaultExpression(constraints: string, blanked: string): string | undefined {
+  const m = /\bDEFAULT\s+/.exec(blanked);
+  if (!m) return undefined;
+  const start = m.index + m[0].length;
+  // The first word is part of the expression even when it is a keyword (DEFAULT NULL).
+  const firstWord = /^\w+/.exec(blanked.slice(start))?.[0] ?? "";
+  const tail = blanked.slice(start + firstWord.length);
+  const end = start + firstWord.length + (tail.length - splitTypeAndConstraints(tail).rest.length);
+  return constraints.slice(start, end).trim() || undefined;
+}
+
+/**
+ * `text` with the contents of its string literals replaced by spaces, so
+ * offsets still line up and DEFAULT 'REFERENCES x' reads as no keyword.
+ */
+function blankStringLiterals(text: string): string {
+  return text.replace(/'(?:[^']|'')*'/g, (literal) => `'${" ".repeat(literal.length - 2)}'`);
+}
+
+/**
+ * Column names of the first parenthesized list in `line`. Per-column extras
+ * are dropped: ASC/DESC, MySQL prefix lengths like email(50).
+ */
 function extractColumnList(line: string): string[] {
-  const m = /\(([^)]+)\)/.exec(line);
-  if (!m) return [];
-  return m[1]
-    .split(",")
-    .map((c) => stripQuotes(c))
-    .map((c) => c.trim())
+  const open = line.indexOf("(");
+  if (open < 0) return [];
+  const inner = extractParenthesized(line, open);
+  if (inner == null) return [];
+  const leadingIdent = new RegExp(`^${IDENT}`);
+  return splitColumns(inner)
+    .map((part) => leadingIdent.exec(part.trim())?.[0] ?? "")
+    .map((c) => normalizeName(c))
     .filter(Boolean);
 }
 
 function parseTableLevelForeignKey(
   line: string,
   tableName: string,
+  constraintName?: string,
 ): SqlForeignKey | null {
   const fkCols = extractColumnList(line);
-  const refMatch = /REFERENCES\s+("?[\w.]+"?)\s*\(([^)]+)\)/i.exec(line);
+  const refMatch = new RegExp(`REFERENCES\\s+(${QUALIFIED_NAME})\\s*(\\([^)]+\\))?`, "i").exec(
+    line,
+  );
   if (!fkCols.length || !refMatch) return null;
 
-  const toTable = stripQuotes(refMatch[1]);
-  const toCols = refMatch[2]
-    .split(",")
-    .map((c) => stripQuotes(c))
-    .map((c) => c.trim())
-    .filter(Boolean);
+  const toTable = normalizeName(refMatch[1]);
+  // Without a column list the referenced primary key is meant; it is resolved later.
+  const toCols = refMatch[2] ? extractColumnList(refMatch[2]) : [];
 
-  if (fkCols.length !== 1 || toCols.length !== 1) {
-    // For simplicity, only handle single-column FKs for now.
+  if (toCols.length > 0 && fkCols.length !== toCols.length) {
+    // Column lists must pair up positionally; anything else is malformed DDL.
     return null;
   }
 
   return {
-    name: `${tableName}_${fkCols[0]}_fk`,
+    name: constraintName ?? defaultForeignKeyName(tableName, fkCols),
     fromTable: tableName,
     fromColumn: fkCols[0],
+    fromColumns: fkCols,
     toTable,
-    toColumn: toCols[0],
-    // Cardinality will be refined later based on referenced side uniqueness.
+    toColumn: toCols[0] ?? "",
+    toColumns: toCols,
+    // Placeholder; refined by inferCardinality() during analysis.
     cardinality: "one-to-many",
   };
 }
 
+/**
+ * Parse an inline column reference, e.g.
+ * `artist_id int [CONSTRAINT album_artist_fk] REFERENCES artist(id)`.
+ * A missing column list is resolved to the referenced primary key later.
+ */
+function parseInlineReference(
+  line: string,
+  tableName: string,
+  columnName: string,
+): SqlForeignKey | null {
+  const refMatch = new RegExp(
+    `(?:CONSTRAINT\\s+(${IDENT})\\s+)?REFERENCES\\s+(${QUALIFIED_NAME})\\s*(\\([^)]+\\))?`,
+    "i",
+  ).exec(blankStringLiterals(line));
+  if (!refMatch) return null;
+
+  const toColumn = refMatch[3] ? extractColumnList(refMatch[3])[0] ?? "" : "";
+
+  return {
+    name: refMatch[1]
+      ? normalizeName(refMatch[1])
+      : defaultForeignKeyName(tableName, [columnName]),
+    fromTable: tableName,
+    fromColumn: columnName,
+    fromColumns: [columnName],
+    toTable: normalizeName(refMatch[2]),
+    toColumn,
+    toColumns: toColumn ? [toColumn] : [],
+    // Placeholder; refined by inferCardinality() during analysis.
+    cardinality: "one-to-many",
+  };
+}
+
+function defaultForeignKeyName(tableName: string, columnNames: string[]): string {
+  return `${tableName}_${columnNames.join("_")}_fk`;
+}
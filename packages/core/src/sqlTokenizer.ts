@@ -0,0 +1,302 @@
+import type { SqlDiagnostic } from "./model";
+
+// Lexer for DDL scripts such as `pg_dump --schema-only` output. It knows
+// enough of the lexical rules to never split or misread a statement:
+// - 'strings' with '' escapes, E'...' / N'...' / X'...' / B'...' prefixes,
+//   Postgres $$dollar$$ / $tag$quoted$tag$ bodies
+// - "identifiers" with "" escapes, `backticks`, and [brackets] (T-SQL)
+// - -- line comments, /* block */ comments (nested in Postgres), # (MySQL)
+// - psql meta-commands (\connect, \restrict) on a line of their own
+// Offsets refer to the input, so diagnostics can point at line and column.
+
+export type SqlTokenKind =
+  /** Keyword or bare identifier. */
+  | "word"
+  /** "quoted", `backticked` or [bracketed] identifier. */
+  | "identifier"
+  | "string"
+  | "number"
+  /** Punctuation and operators: ( ) , ; . :: = etc. */
+  | "operator"
+  /** psql meta-command line, e.g. \connect db. */
+  | "metaCommand";
+
+export interface SqlToken {
+  kind: SqlTokenKind;
+  text: string;
+  /** Offsets of the token in the input: [start, end). */
+  start: number;
+  end: number;
+}
+
+/** Lexical rules beyond standard SQL; see DialectSpec.tokens. */
+export interface SqlTokenizerOptions {
+  /** `[name]` is a quoted identifier (T-SQL) rather than a bracket. */
+  bracketIdentifiers?: boolean;
+  /** `#` starts a line comment (MySQL). */
+  hashComments?: boolean;
+  /** Backslash escapes characters inside strings (MySQL). */
+  backslashEscapes?: boolean;
+  /** `$tag$ ... $tag$` quotes a string (Postgres). */
+  dollarQuotes?: boolean;
+  /** Block comments nest (Postgres). */
+  nestedComments?: boolean;
+}
+
+/** One statement of a script, with comments blanked out. */
+export interface SqlStatement {
+  /**
+   * Source text from the first to the last token, comments replaced by
+   * spaces so offsets into `text` plus `start` are offsets into the input.
+   */
+  text: string;
+  start: number;
+  tokens: SqlToken[];
+}
+
+export interface TokenizeResult {
+  tokens: SqlToken[];
+  /** [start, end) of every comment, in order. */
+  comments: Array<[number, number]>;
+  /** Unterminated strings, identifiers and comments. */
+  diagnostics: SqlDiagnostic[];
+}
+
+const WORD_START = /[A-Za-z_\u0080-￿]/;
+const WORD_CHAR = /[\w$\u0080-￿]/;
+const OPERATOR_CHARS = "+-*/<>=~!@#%^&|?:";
+
+export function tokenizeSql(sql: string, options: SqlTokenizerOptions = {}): TokenizeResult {
+  const tokens: SqlToken[] = [];
+  const comments: Array<[number, number]> = [];
+  const diagnostics: SqlDiagnostic[] = [];
+  const unterminated = (what: string, start: number): void => {
+    diagnostics.push({
+      severity: "warning",
+      message: `Unterminated ${what}; the rest of the input is ignored`,
+      ...createLineIndex(sql)(start),
+    });
+  };
+
+  let i = 0;
+  let lineStart = true;
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+    const start = i;
+
+    if (ch === "\n") {
+      lineStart = true;
+      i++;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const atLineStart = lineStart;
+    lineStart = false;
+
+    if ((ch === "-" && next === "-") || (ch === "#" && options.hashComments)) {
+      i = lineEnd(sql, i);
+      comments.push([start, i]);
+      continue;
+    }
+    if (ch === "/" && next === "*") {
+      const end = blockCommentEnd(sql, i, options.nestedComments === true);
+      if (end < 0) {
+        unterminated("block comment", start);
+        comments.push([start, sql.length]);
+        break;
+      }
+      i = end;
+      comments.push([start, i]);
+      continue;
+    }
+    if (ch === "\\" && atLineStart) {
+      i = lineEnd(sql, i);
+      tokens.push({ kind: "metaCommand", text: sql.slice(start, i), start, end: i });
+      continue;
+    }
+
+    // String prefixes: E'...' (escapes), N'...', X'...', B'...'.
+    if (/[EeNnXxBb]/.test(ch) && next === "'") {
+      const escapes = options.backslashEscapes === true || ch === "E" || ch === "e";
+      const end = quotedEnd(sql, i + 1, "'", escapes);
+      if (end < 0) {
+        unterminated("string", start);
+        break;
+      }
+      i = end;
+      tokens.push({ kind: "string", text: sql.slice(start, i), start, end: i });
+      continue;
+    }
+    if (ch === "'") {
+      const end = quotedEnd(sql, i, "'", options.backslashEscapes === true);
+      if (end < 0) {
+        unterminated("string", start);
+        break;
+      }
+      i = end;
+      tokens.push({ kind: "string", text: sql.slice(start, i), start, end: i });
+      continue;
+    }
+    if (ch === '"' || ch === "`" || (ch === "[" && options.bracketIdentifiers)) {
+      const close = ch === "[" ? "]" : ch;
+      const end = quotedEnd(sql, i, close, false);
+      if (end < 0) {
+        unterminated("quoted identifier", start);
+        break;
+      }
+      i = end;
+      tokens.push({ kind: "identifier", text: sql.slice(start, i), start, end: i });
+      continue;
+    }
+    if (ch === "$" && options.dollarQuotes) {
+      const tag = /^\$(?:[A-Za-z_][\w]*)?\$/.exec(sql.slice(i, i + 64));
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        if (close < 0) {
+          unterminated("dollar-quoted string", start);
+          break;
+        }
+        i = close + tag[0].length;
+        tokens.push({ kind: "string", text: sql.slice(start, i), start, end: i });
+        continue;
+      }
+    }
+
+    if (WORD_START.test(ch)) {
+      while (i < sql.length && WORD_CHAR.test(sql[i])) i++;
+      tokens.push({ kind: "word", text: sql.slice(start, i), start, end: i });
+      continue;
+    }
+    if (/\d/.test(ch) || (ch === "." && /\d/.test(next ?? ""))) {
+      const m = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(sql.slice(i, i + 64))!;
+      i += m[0].length;
+      tokens.push({ kind: "number", text: m[0], start, end: i });
+      continue;
+    }
+    if (OPERATOR_CHARS.includes(ch)) {
+      // Runs such as ::, >=, <> are one operator; -- and /* start comments instead.
+      i++;
+      while (
+        i < sql.length &&
+        OPERATOR_CHARS.includes(sql[i]) &&
+        !(sql[i] === "-" && sql[i + 1] === "-") &&
+        !(sql[i] === "/" && sql[i + 1] === "*") &&
+        !(sql[i] === "#" && options.hashComments)
+      ) {
+        i++;
+      }
+      tokens.push({ kind: "operator", text: sql.slice(start, i), start, end: i });
+      continue;
+    }
+    i++;
+    tokens.push({ kind: "operator", text: ch, start, end: i });
+  }
+
+  return { tokens, comments, diagnostics };
+}
+
+/**
+ * Split a script into statements at top-level `;`. A psql meta-command is a
+ * statement of its own. Statements keep their source offsets.
+ */
+export function splitSqlStatements(
+  sql: string,
+  options: SqlTokenizerOptions = {},
+): { statements: SqlStatement[]; diagnostics: SqlDiagnostic[] } {
+  const { tokens, comments, diagnostics } = tokenizeSql(sql, options);
+  const statements: SqlStatement[] = [];
+  let current: SqlToken[] = [];
+  let commentIndex = 0;
+
+  const flush = (): void => {
+    if (current.length === 0) return;
+    const start = current[0].start;
+    const end = current[current.length - 1].end;
+    let text = sql.slice(start, end);
+    // Blank comments inside the statement, keeping line breaks and offsets.
+    while (commentIndex < comments.length && comments[commentIndex][1] <= start) commentIndex++;
+    for (let c = commentIndex; c < comments.length && comments[c][0] < end; c++) {
+      const [from, to] = comments[c];
+      const blank = sql.slice(from, to).replace(/[^\n]/g, " ");
+      text = text.slice(0, from - start) + blank + text.slice(to - start);
+    }
+    statements.push({ text, start, tokens: current });
+    current = [];
+  };
+
+  for (const token of tokens) {
+    if (token.kind === "metaCommand") {
+      flush();
+      current.push(token);
+      flush();
+    } else if (token.kind === "operator" && token.text === ";") {
+      flush();
+    } else {
+      current.push(token);
+    }
+  }
+  flush();
+
+  return { statements, diagnostics };
+}
+
+/** Map offsets of `text` to 1-based line and column. */
+export function createLineIndex(text: string): (offset: number) => { line: number; column: number } {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") lineStarts.push(i + 1);
+  }
+  return (offset) => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return { line: lo + 1, column: offset - lineStarts[lo] + 1 };
+  };
+}
+
+function lineEnd(sql: string, from: number): number {
+  const end = sql.indexOf("\n", from);
+  return end < 0 ? sql.length : end;
+}
+
+/** Offset just past the comment opened at `from`, or -1 if it never closes. */
+function blockCommentEnd(sql: string, from: number, nested: boolean): number {
+  let depth = 0;
+  for (let i = from; i < sql.length - 1; i++) {
+    if (sql[i] === "/" && sql[i + 1] === "*" && (nested || depth === 0)) {
+      depth++;
+      i++;
+    } else if (sql[i] === "*" && sql[i + 1] === "/") {
+      depth--;
+      i++;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Offset just past the quoted text opened at `from` (doubled closing
+ * characters are escapes), or -1 if it never closes.
+ */
+function quotedEnd(sql: string, from: number, close: string, backslashEscapes: boolean): number {
+  for (let i = from + 1; i < sql.length; i++) {
+    const ch = sql[i];
+    if (backslashEscapes && ch === "\\") {
+      i++;
+    } else if (ch === close) {
+      if (sql[i + 1] === close) i++;
+      else return i + 1;
+    }
+  }
+  return -1;
+}
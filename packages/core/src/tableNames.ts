@@ -0,0 +1,110 @@
+import type { NoSqlCollection, SqlSchema, SqlTable, TableFilter } from "./model";
+
+// Tables read from several schemas, or created under a qualified name in
+// parsed DDL, carry qualified names (billing.invoice, auth.user) and their
+// schema, so equal names in different schemas stay apart. Collections
+// have no schema: they take the bare table name, and only tables whose bare
+// name is shared across schemas get the schema as a prefix (billing_invoice).
+
+/** Table name without its schema: billing.invoice → invoice. */
+export function bareTableName(table: Pick<SqlTable, "name" | "schema">): string {
+  if (table.schema && table.name.startsWith(`${table.schema}.`)) {
+    return table.name.slice(table.schema.length + 1);
+  }
+  return table.name;
+}
+
+/**
+ * Collection name for every table, keyed by table name: the bare table name
+ * when no other table shares it, schema_table otherwise, plus a numeric
+ * suffix in the unlikely case that is taken too.
+ */
+export function collectionNamesForTables(tables: SqlTable[]): Map<string, string> {
+  const counts = new Map<string, number>();
+  for (const table of tables) {
+    const bare = bareTableName(table);
+    counts.set(bare, (counts.get(bare) ?? 0) + 1);
+  }
+
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  for (const table of tables) {
+    const bare = bareTableName(table);
+    if (counts.get(bare) === 1) {
+      names.set(table.name, bare);
+      used.add(bare);
+    }
+  }
+  for (const table of tables) {
+    if (names.has(table.name)) continue;
+    const bare = bareTableName(table);
+    const base = table.schema ? `${table.schema}_${bare}` : table.name.replace(/\./g, "_");
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}_${n}`;
+    names.set(table.name, name);
+    used.add(name);
+  }
+  return names;
+}
+
+/** SQL table a collection was derived from. */
+export function collectionTable(collection: NoSqlCollection): string {
+  return collection.table ?? collection.name;
+}
+
+/** Collection derived from `tableName`, if it was not folded or filtered out. */
+export function findCollectionForTable(
+  collections: NoSqlCollection[],
+  tableName: string,
+): NoSqlCollection | undefined {
+  return collections.find((c) => collectionTable(c) === tableName);
+}
+
+/** Array field for a child collection's rows: invoice + invoice_line → "lines"; order + item → "items". */
+export function childArrayName(parent: string, child: string): string {
+  const prefix = `${parent}_`;
+  const base =
+    child.startsWith(prefix) && child.length > prefix.length
+      ? child.slice(prefix.length)
+      : child;
+  return base.endsWith("s") ? base : `${base}s`;
+}
+
+/**
+ * Keep the tables selected by `filter`, with their checks and indexes.
+ * Foreign keys of dropped tables go too; foreign keys into dropped tables
+ * stay, as references to a collection outside the analysis.
+ */
+export function filterTables(sqlSchema: SqlSchema, filter: TableFilter): SqlSchema {
+  const include = (filter.include ?? []).map(globToRegExp);
+  const exclude = (filter.exclude ?? []).map(globToRegExp);
+  if (include.length === 0 && exclude.length === 0) return sqlSchema;
+
+  const selected = (table: SqlTable): boolean => {
+    const bare = bareTableName(table);
+    const candidates = [table.name, bare, ...(table.schema ? [`${table.schema}.${bare}`] : [])];
+    const matches = (patterns: RegExp[]): boolean =>
+      patterns.some((pattern) => candidates.some((name) => pattern.test(name)));
+    return (include.length === 0 || matches(include)) && !matches(exclude);
+  };
+
+  const tables = sqlSchema.tables.filter(selected);
+  const kept = new Set(tables.map((t) => t.name));
+  return {
+    ...sqlSchema,
+    tables,
+    foreignKeys: sqlSchema.foreignKeys.filter((fk) => kept.has(fk.fromTable)),
+    ...(sqlSchema.checkConstraints
+      ? { checkConstraints: sqlSchema.checkConstraints.filter((c) => kept.has(c.table)) }
+      : {}),
+    ...(sqlSchema.indexes ? { indexes: sqlSchema.indexes.filter((i) => kept.has(i.table)) } : {}),
+  };
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((ch) => (ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
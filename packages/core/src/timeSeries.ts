@@ -0,0 +1,211 @@
+import type {
+  NoSqlBucketFields,
+  NoSqlCollection,
+  NoSqlField,
+  NoSqlMappingOptions,
+  SqlColumn,
+  SqlForeignKey,
+  SqlSchema,
+  SqlTable,
+  TimeSeriesTable,
+} from "./model";
+import { detectJunctionTables } from "./cardinality";
+import { bareTableName, childArrayName, collectionNamesForTables, collectionTable } from "./tableNames";
+
+// Append-only tables of timed rows (sensor readings, invoice events) grow
+// by one document per row when mapped as-is. MongoDB offers two designs
+// that keep an owner's rows together instead:
+// - buckets: one document per owner and time window with the rows in an
+//   array, plus their count and the min / max of the time and numeric fields
+// - timeseries: a native time-series collection, which buckets internally
+// A table qualifies when it has a timestamp column, an FK to an owner, no
+// column suggesting updates, and nothing references its rows. Profiled row
+// counts decide when known; otherwise the table name must read as a log of
+// events (events, readings, logs, ...).
+
+/** Profiled tables with fewer rows than this gain little from bucketing. */
+export const TIME_SERIES_MIN_ROWS = 100_000;
+
+/** Bookkeeping fields of a bucket, before mapping.fieldNaming renames them. */
+export const BUCKET_FIELDS: NoSqlBucketFields = { start: "bucket_start", count: "count", min: "min", max: "max" };
+
+/** Table names that read as a log of events. */
+const EVENT_TABLE = /(?:^|_)(?:events?|readings?|logs?|metrics?|measurements?|samples?|ticks?|history|audits?)$/i;
+
+/** Columns that say rows are edited after they are written. */
+const UPDATE_MARKER = /^(?:updated|modified|changed)(?:_(?:at|on|by))?$|^(?:row_|lock_)?version$/i;
+
+/** Time column names preferred when a table has several timestamps. */
+const TIME_COLUMN = /(?:^|_)(?:at|time|timestamp|ts)$/i;
+
+export interface TimeSeriesCandidate {
+  table: SqlTable;
+  timeColumn: SqlColumn;
+  owner: SqlForeignKey;
+  reason: string;
+}
+
+/** Tables that look like append-only time series; see the rules above. */
+export function detectTimeSeries(sqlSchema: SqlSchema): TimeSeriesCandidate[] {
+  const junctions = new Set(detectJunctionTables(sqlSchema).map((j) => j.table));
+  const referenced = new Set(sqlSchema.foreignKeys.map((fk) => fk.toTable));
+  const candidates: TimeSeriesCandidate[] = [];
+
+  for (const table of sqlSchema.tables) {
+    if (junctions.has(table.name) || referenced.has(table.name)) continue;
+    if (table.columns.some((c) => UPDATE_MARKER.test(c.name))) continue;
+
+    const timeColumn = pickTimeColumn(table);
+    const owner = pickOwner(table, sqlSchema.foreignKeys);
+    if (!timeColumn || !owner) continue;
+
+    const rowCount = table.statistics?.rowCount;
+    let evidence: string;
+    if (rowCount != null) {
+      if (rowCount < TIME_SERIES_MIN_ROWS) continue;
+      evidence = `about ${Math.round(rowCount)} rows`;
+    } else if (EVENT_TABLE.test(bareTableName(table))) {
+      evidence = "a name that reads as a log of events";
+    } else {
+      continue;
+    }
+
+    candidates.push({
+      table,
+      timeColumn,
+      owner,
+      reason: `${table.name} has timestamp ${timeColumn.name}, owner ${owner.fromColumn} → ${owner.toTable}, no update columns, nothing referencing it and ${evidence}.`,
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Store each time-series table the way options.timeSeries asks: its
+ * collection becomes a bucket collection or is marked as a MongoDB
+ * time-series collection. Returns every candidate with the pattern applied.
+ */
+export function applyTimeSeries(
+  collections: NoSqlCollection[],
+  sqlSchema: SqlSchema,
+  options: NoSqlMappingOptions,
+): TimeSeriesTable[] {
+  const pattern = options.timeSeries ?? "documents";
+  const window = options.timeSeriesWindow ?? "day";
+  const names = collectionNamesForTables(sqlSchema.tables);
+  const result: TimeSeriesTable[] = [];
+
+  for (const candidate of detectTimeSeries(sqlSchema)) {
+    const { table, timeColumn, owner } = candidate;
+    const collection = collections.find((c) => collectionTable(c) === table.name);
+    if (!collection) continue;
+
+    if (pattern === "timeseries") {
+      collection.timeSeries = {
+        pattern,
+        timeField: timeColumn.name,
+        metaField: owner.fromColumn,
+        window,
+      };
+      collection.description = `Time-series collection of ${table.name} rows by ${owner.fromColumn}`;
+    } else if (pattern === "buckets") {
+      bucketCollection(collection, candidate, names.get(owner.toTable) ?? owner.toTable, window);
+    }
+
+    result.push({
+      table: table.name,
+      timeColumn: timeColumn.name,
+      ownerColumn: owner.fromColumn,
+      ownerTable: owner.toTable,
+      pattern,
+      reason: candidate.reason,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Replace the collection's row fields with a bucket document: the owner,
+ * the window start, count, min, max and the rows themselves.
+ */
+function bucketCollection(
+  collection: NoSqlCollection,
+  candidate: TimeSeriesCandidate,
+  ownerCollection: string,
+  window: NonNullable<NoSqlMappingOptions["timeSeriesWindow"]>,
+): void {
+  const { table, timeColumn, owner } = candidate;
+  const ownerField = collection.fields.find((f) => f.name === owner.fromColumn);
+  const rowFields = collection.fields.filter((f) => f.name !== owner.fromColumn);
+  const summaryFields = rowFields.filter(
+    (f) =>
+      f.name === timeColumn.name || (f.type === "number" && !table.primaryKey.includes(f.name)),
+  );
+  const itemsField = childArrayName(ownerCollection, collection.name);
+  const summary = (which: string): NoSqlField => ({
+    name: which,
+    type: "object",
+    optional: false,
+    description: `${which === BUCKET_FIELDS.min ? "Smallest" : "Largest"} ${summaryFields
+      .map((f) => f.name)
+      .join(", ")} in the bucket`,
+    fields: summaryFields.map((f) => ({ ...f, optional: true })),
+  });
+
+  collection.fields = [
+    {
+      name: owner.fromColumn,
+      type: "reference",
+      optional: ownerField?.optional ?? false,
+      refCollection: ownerCollection,
+      description: `Owner of the bucket's rows (${table.name}.${owner.fromColumn})`,
+    },
+    {
+      name: BUCKET_FIELDS.start,
+      type: "date",
+      optional: false,
+      description: `Start (UTC) of the ${window} the bucket covers`,
+    },
+    { name: BUCKET_FIELDS.count, type: "number", optional: false, description: "Rows in the bucket" },
+    summary(BUCKET_FIELDS.min),
+    summary(BUCKET_FIELDS.max),
+    {
+      name: itemsField,
+      type: "array",
+      optional: false,
+      description: `${table.name} rows of the bucket, oldest first`,
+      items: { type: "object", fields: rowFields },
+    },
+  ];
+  collection.description = `Buckets of ${table.name} rows per ${owner.fromColumn} and ${window} (bucket pattern)`;
+  collection.timeSeries = {
+    pattern: "buckets",
+    timeField: timeColumn.name,
+    metaField: owner.fromColumn,
+    window,
+    itemsField,
+    summaryFields: summaryFields.map((f) => f.name),
+    bucketFields: { ...BUCKET_FIELDS },
+  };
+}
+
+/** A timestamp column, NOT NULL ones and time-like names first. */
+function pickTimeColumn(table: SqlTable): SqlColumn | undefined {
+  const timestamps = table.columns.filter(
+    (c) => c.type === "timestamp" || c.type === "timestamptz",
+  );
+  const rank = (c: SqlColumn): number => (c.nullable ? 2 : 0) + (TIME_COLUMN.test(c.name) ? 0 : 1);
+  return [...timestamps].sort((a, b) => rank(a) - rank(b))[0];
+}
+
+/** The first single-column FK to another table, NOT NULL ones first. */
+function pickOwner(table: SqlTable, foreignKeys: SqlForeignKey[]): SqlForeignKey | undefined {
+  const fks = foreignKeys.filter(
+    (fk) => fk.fromTable === table.name && fk.toTable !== table.name && fk.fromColumns.length === 1,
+  );
+  const nullable = (fk: SqlForeignKey): boolean =>
+    table.columns.find((c) => c.name === fk.fromColumn)?.nullable ?? true;
+  return fks.find((fk) => !nullable(fk)) ?? fks[0];
+}
@@ -0,0 +1,76 @@
+import { jsonShapeToField } from "./jsonShapes";
+import type { NoSqlField, SqlColumn, SqlColumnType } from "./model";
+
+/**
+ * NoSQL type of a column's values. Array columns keep their element type in
+ * `items`; exact numerics that a double cannot represent become "decimal".
+ * Sampled json / jsonb columns get the nested fields of their values.
+ */
+export function mapColumnToNoSqlType(
+  col: SqlColumn,
+): Pick<NoSqlField, "type" | "items" | "fields" | "sampledValues"> {
+  if (col.jsonShape && (col.type === "json" || col.type === "jsonb")) {
+    return {
+      ...jsonShapeToField(col.jsonShape),
+      sampledValues: col.jsonShape.count - col.jsonShape.nulls,
+    };
+  }
+  if (col.type !== "array") {
+    return { type: mapScalarType(col.type, col) };
+  }
+  let items: NonNullable<NoSqlField["items"]> = {
+    type: mapScalarType(col.elementType ?? "unknown", col),
+  };
+  for (let dim = 1; dim < (col.arrayDimensions ?? 1); dim++) {
+    items = { type: "array", items };
+  }
+  return { type: "array", items };
+}
+
+/** Largest precision whose integers a double holds exactly (2^53 ≈ 9.007e15). */
+const MAX_EXACT_DOUBLE_DIGITS = 15;
+
+function mapScalarType(type: SqlColumnType, col: SqlColumn): NoSqlField["type"] {
+  switch (type) {
+    case "smallint":
+    case "integer":
+    case "bigint":
+    case "serial":
+    case "bigserial":
+    case "real":
+    case "double precision":
+      return "number";
+    case "numeric":
+      // Only small whole numbers survive a round trip through a double;
+      // fractional or unbounded numerics (prices, rates) need a decimal.
+      return col.scale === 0 &&
+        col.precision != null &&
+        col.precision <= MAX_EXACT_DOUBLE_DIGITS
+        ? "number"
+        : "decimal";
+    case "money":
+      return "decimal";
+    case "boolean":
+      return "boolean";
+    case "timestamp":
+    case "timestamptz":
+    case "date":
+      return "date";
+    case "json":
+    case "jsonb":
+      return "object";
+    case "bytea":
+      return "binary";
+    case "char":
+    case "text":
+    case "varchar":
+    case "uuid":
+    case "enum":
+    case "time":
+    case "interval":
+    case "inet":
+      return "string";
+    default:
+      return "unknown";
+  }
+}
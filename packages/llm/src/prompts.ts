@@ -12,12 +12,42 @@ export function buildRecommendationPrompt(
 
       const columnPreview = table.columns
         .slice(0, 6)
-        .map((c) => `${c.name}:${c.type}`)
+        .map((c) => `${c.name}:${c.rawType ?? c.type}`)
         .join(", ");
 
-      return `- ${table.name}
-  columns: ${columnPreview}${table.columns.length > 6 ? ", ..." : ""}
-  PK: ${table.primaryKey.join(", ") || "none"}
+      // DBA comments explain intent the names alone do not carry.
+      const commentLines = table.columns
+        .filter((c) => c.comment)
+        .map((c) => `\n    ${c.name}: ${c.comment}`)
+        .join("");
+
+      const indexPreview = (sqlSchema.indexes ?? [])
+        .filter((index) => index.table === table.name)
+        .map(
+          (index) =>
+            `${index.unique ? "unique " : ""}(${index.keys
+              .map((k) => `${k.column ?? k.expression}${k.descending ? " desc" : ""}`)
+              .join(", ")})${index.where ? ` where ${index.where}` : ""}`,
+        )
+        .join("; ");
+
+      // Profiled sizes, when available, ground the embedding advice in data.
+      const stats = table.statistics;
+      const sizeLine =
+        stats && (stats.rowCount != null || stats.avgRowBytes != null)
+          ? `\n  data: ${[
+              stats.rowCount != null ? `~${Math.round(stats.rowCount)} rows` : "",
+              stats.avgRowBytes != null ? `~${stats.avgRowBytes} bytes/row` : "",
+            ]
+              .filter(Boolean)
+              .join(", ")}`
+          : "";
+
+      return `- ${table.name}${table.comment ? ` — ${table.comment}` : ""}${sizeLine}
+  columns: ${columnPreview}${table.columns.length > 6 ? ", ..." : ""}${
+    commentLines ? `\n  column comments:${commentLines}` : ""
+  }
+  PK: ${table.primaryKey.join(", ") || "none"}${indexPreview ? `\n  indexes: ${indexPreview}` : ""}
   FKs: ${fks.length}`;
     })
     .join("\n");
@@ -25,7 +55,13 @@ export function buildRecommendationPrompt(
   const relationshipsSummary = sqlSchema.foreignKeys
     .map(
       (fk) =>
-        `- ${fk.fromTable}.${fk.fromColumn} → ${fk.toTable}.${fk.toColumn} (${fk.cardinality})`,
+        `- ${fk.fromTable}(${fk.fromColumns.join(", ")}) → ${fk.toTable}(${fk.toColumns.join(", ")}) (${fk.cardinality})${
+          fk.cardinalityReason ? `\n  why: ${fk.cardinalityReason}` : ""
+        }${
+          fk.fanOut
+            ? `\n  children per parent: max ${fk.fanOut.maxChildren}, p95 ${fk.fanOut.p95Children}, avg ${fk.fanOut.avgChildren.toFixed(1)}`
+            : ""
+        }`,
     )
     .join("\n");
 
@@ -47,11 +83,16 @@ Current NoSQL Mapping (baseline, auto-generated):
 ${nosqlSchema.collections
   .map(
     (c) =>
-      `- ${c.name}: ${c.fields
+      `- ${c.name}${c.table ? ` (table ${c.table})` : ""}: ${c.fields
         .map(
           (f) =>
             `${f.name}(${f.type}${
               f.refCollection ? `→${f.refCollection}` : ""
+            }${
+              // Keys of json columns, inferred from sampled values.
+              f.sampledValues != null && f.fields
+                ? ` {${f.fields.map((member) => `${member.name}:${member.type}`).join(", ")}}`
+                : ""
             })`,
         )
         .join(", ")}`,
@@ -68,6 +109,10 @@ Strategies you may recommend:
 2. **partial** – embed selected fields
 3. **full** – embed entire referenced document (ONLY for explicit FKs)
 4. **hybrid** – reference + denormalized fields
+5. **array** – embed ALL child rows in the parent as an array (one-to-many, bounded children only).
+   Set "collection" to the parent, "field" to the new array name and "childTable" to the child table.
+6. **subset** – like array but keep only "limit" children ordered by "sort"
+   (e.g. { "column": "created_at", "direction": "desc" }) for unbounded children
 
 Rules:
 - Implicit (non-FK) relationships may ONLY use "partial" or "hybrid"
@@ -75,8 +120,21 @@ Rules:
 - Prefer immutable or rarely updated fields (name, title, slug, code)
 - Avoid large, frequently updated, or unbounded fields
 - Respect MongoDB limits (16MB document size, shallow nesting)
+- When children per parent are given, use them: prefer "subset" or "reference"
+  over "array" when the max is in the thousands or max × bytes/row nears 16MB
 - Focus on read optimization, not write optimization
 - If reference is optimal, still include it with strategy "reference"
+- Only use "array" or "subset" for explicit one-to-many FKs
+- Self-referencing FKs (parent_id → same table) form trees: use "reference";
+  for deep or subtree-heavy reads, suggest the ancestors array or materialized
+  path pattern as an insight instead of embedding the parent
+- Append-only event tables (a timestamp, an owner FK, no updates, e.g. sensor
+  readings) grow without bound: do not embed them as "array"; suggest buckets
+  per owner and time window or a MongoDB time-series collection as an insight
+- Tables whose primary key is also an FK to another table's key are subtypes
+  (table-per-type); a single collection with a discriminator field is an option
+- *_type + *_id column pairs without an FK are polymorphic references; never
+  embed them, a typed { type, id } reference is the usual MongoDB shape
 
 Return JSON in EXACTLY this format:
 {